@@ -0,0 +1,21 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: "ts-jest/presets/default-esm",
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  moduleNameMapper: {
+    "^(\\.{1,2}/.*)\\.js$": "$1",
+  },
+  transform: {
+    "^.+\\.ts$": [
+      "ts-jest",
+      {
+        useESM: true,
+        // Type-checking is left to tsc, which is much faster on googleapis
+        isolatedModules: true,
+        // ts-jest emits ESNext modules, which NodeNext resolution rejects
+        tsconfig: { module: "ESNext", moduleResolution: "Bundler" },
+      },
+    ],
+  },
+};
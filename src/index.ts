@@ -41,6 +41,7 @@ import {
   registerProjectManagementTools,
   registerTextFormatterTools,
   registerFacebookTools,
+  startGmailBackgroundTasks,
 } from "./tools/index.js";
 import { projectRoot } from "./utils/common.js";
 import { logger } from "./utils/logger.js";
@@ -226,6 +227,9 @@ async function main(): Promise<void> {
     const transport = new StdioServerTransport();
     await server.connect(transport);
 
+    // Scheduled jobs and the mailbox watch run in the background
+    startGmailBackgroundTasks(server, configManager.getQueryConfig());
+
     logger.info("Personal Assistant MCP Server started successfully");
     console.error(
       "🤖 Personal Assistant Ready: 66+ productivity tools available\n" +
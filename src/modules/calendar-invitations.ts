@@ -0,0 +1,103 @@
+import { calendar_v3 } from "googleapis";
+import { CalendarEvent, summarizeEvent } from "./google-calendar.js";
+
+export type RsvpResponse = "accepted" | "declined" | "tentative";
+
+const myResponse = (event: CalendarEvent) =>
+  event.attendees?.find((attendee) => attendee.self)?.responseStatus;
+
+/**
+ * Sets your response to an invitation, with an optional note for the
+ * organizer. An occurrence ID answers one occurrence, a series ID all of
+ * them.
+ */
+export const respondToEvent = async (
+  calendar: calendar_v3.Calendar,
+  {
+    eventId,
+    response,
+    comment,
+    calendarId = "primary",
+  }: {
+    eventId: string;
+    response: RsvpResponse;
+    comment?: string;
+    calendarId?: string;
+  }
+) => {
+  const { data: event } = await calendar.events.get({ calendarId, eventId });
+  const attendees = event.attendees || [];
+  if (!attendees.some((attendee) => attendee.self))
+    throw new Error(`You are not on the guest list of event ${eventId}`);
+
+  const { data } = await calendar.events.patch({
+    calendarId,
+    eventId,
+    requestBody: {
+      // The whole list is sent, with only your own entry changed
+      attendees: attendees.map((attendee) =>
+        attendee.self
+          ? {
+              ...attendee,
+              responseStatus: response,
+              comment: comment ?? attendee.comment,
+            }
+          : attendee
+      ),
+    },
+    sendUpdates: "all",
+  });
+  return { ...summarizeEvent(data), myResponse: myResponse(data) };
+};
+
+/**
+ * Upcoming events you were invited to and have not answered yet. A
+ * recurring invitation is listed once, at its first occurrence in range,
+ * with the series ID to answer all occurrences at once.
+ */
+export const listPendingInvitations = async (
+  calendar: calendar_v3.Calendar,
+  {
+    calendarId = "primary",
+    timeMin,
+    timeMax,
+    maxResults = 25,
+    timeZone,
+  }: {
+    calendarId?: string;
+    timeMin: string;
+    timeMax?: string;
+    maxResults?: number;
+    timeZone?: string;
+  }
+) => {
+  const pending: CalendarEvent[] = [];
+  const seenSeries = new Set<string>();
+  let pageToken: string | undefined;
+  do {
+    const { data } = await calendar.events.list({
+      calendarId,
+      timeMin,
+      timeMax,
+      singleEvents: true,
+      orderBy: "startTime",
+      maxResults: 250,
+      pageToken,
+    });
+    for (const event of data.items || []) {
+      if (event.status === "cancelled" || event.organizer?.self) continue;
+      if (myResponse(event) !== "needsAction") continue;
+      if (event.recurringEventId) {
+        if (seenSeries.has(event.recurringEventId)) continue;
+        seenSeries.add(event.recurringEventId);
+      }
+      pending.push(event);
+    }
+    pageToken = data.nextPageToken || undefined;
+  } while (pageToken && pending.length < maxResults);
+
+  return pending.slice(0, maxResults).map((event) => ({
+    ...summarizeEvent(event, timeZone),
+    organizer: event.organizer?.email,
+  }));
+};
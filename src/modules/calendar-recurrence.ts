@@ -0,0 +1,483 @@
+import { calendar_v3 } from "googleapis";
+import {
+  CalendarEvent,
+  CalendarEventPatch,
+  EventDateTime,
+  toEventRequestBody,
+} from "./google-calendar.js";
+import { addDaysToDate, parseDateExpression } from "./date-parser.js";
+import {
+  formatZonedIso,
+  getLocalTimeZone,
+  getZonedParts,
+  zonedTimeToUtc,
+} from "./time-zones.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_CODES: Record<string, string> = {
+  su: "SU",
+  sun: "SU",
+  sunday: "SU",
+  mo: "MO",
+  mon: "MO",
+  monday: "MO",
+  tu: "TU",
+  tue: "TU",
+  tuesday: "TU",
+  we: "WE",
+  wed: "WE",
+  wednesday: "WE",
+  th: "TH",
+  thu: "TH",
+  thursday: "TH",
+  fr: "FR",
+  fri: "FR",
+  friday: "FR",
+  sa: "SA",
+  sat: "SA",
+  saturday: "SA",
+};
+
+export type RecurrenceInput = {
+  rrule?: string;
+  frequency?: "daily" | "weekly" | "monthly" | "yearly";
+  interval?: number;
+  byDay?: string[];
+  byMonthDay?: number[];
+  count?: number;
+  until?: string;
+  exceptions?: string[];
+};
+
+export type EditScope = "this" | "following" | "all";
+
+type RuleParts = [string, string][];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const parseRule = (rule: string): RuleParts =>
+  rule
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean)
+    .map((part) => {
+      const [key, ...value] = part.split("=");
+      return [key.toUpperCase(), value.join("=")];
+    });
+
+const formatRule = (parts: RuleParts) =>
+  `RRULE:${parts.map(([key, value]) => `${key}=${value}`).join(";")}`;
+
+const setRulePart = (parts: RuleParts, key: string, value?: string) => {
+  const rest = parts.filter(([name]) => name !== key);
+  return value === undefined
+    ? rest
+    : [...rest, [key, value] as [string, string]];
+};
+
+const normalizeByDay = (day: string) => {
+  const match = day.trim().match(/^([+-]?\d{1,2})?\s*([a-z]+)$/i);
+  const code = match && WEEKDAY_CODES[match[2].toLowerCase()];
+  if (!code)
+    throw new Error(
+      `Invalid weekday "${day}", use MO-SU or a name, with an optional position like 1MO or -1FR`
+    );
+  return `${match[1] || ""}${code}`;
+};
+
+/** The timestamp format RRULE and EXDATE use, in UTC or as wall time. */
+const formatRuleTime = (date: Date, timeZone?: string) => {
+  if (!timeZone)
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  const parts = getZonedParts(date, timeZone);
+  return (
+    `${parts.year}${pad(parts.month)}${pad(parts.day)}` +
+    `T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`
+  );
+};
+
+const eventTimeZone = (start: EventDateTime) =>
+  start.timeZone || getLocalTimeZone();
+
+/**
+ * Builds the event's `recurrence` lines from an RRULE string or structured
+ * fields. Exceptions are dates or date-times, in any format the date parser
+ * reads, of occurrences to skip; a date alone means the occurrence on that
+ * day. With only exceptions, they are added to `existing`.
+ */
+export const buildRecurrence = (
+  input: RecurrenceInput,
+  start: EventDateTime,
+  existing: string[] = []
+): string[] => {
+  const timeZone = eventTimeZone(start);
+  const allDay = !start.dateTime;
+  let lines: string[];
+
+  if (input.rrule || input.frequency) {
+    let parts: RuleParts = input.rrule
+      ? parseRule(input.rrule)
+      : [["FREQ", input.frequency!.toUpperCase()]];
+    if (!parts.some(([key]) => key === "FREQ"))
+      throw new Error(`Invalid RRULE "${input.rrule}": FREQ is required`);
+    if (input.interval && input.interval > 1)
+      parts = setRulePart(parts, "INTERVAL", String(input.interval));
+    if (input.byDay?.length)
+      parts = setRulePart(
+        parts,
+        "BYDAY",
+        input.byDay.map(normalizeByDay).join(",")
+      );
+    if (input.byMonthDay?.length)
+      parts = setRulePart(parts, "BYMONTHDAY", input.byMonthDay.join(","));
+    if (input.count) parts = setRulePart(parts, "COUNT", String(input.count));
+    if (input.until) {
+      // The end of the given day, so that day's occurrence is included
+      const until = parseDateExpression(input.until, { timeZone });
+      const last = until.allDay
+        ? new Date(until.start.getTime() + DAY_MS - 1000)
+        : until.start;
+      parts = setRulePart(
+        parts,
+        "UNTIL",
+        allDay ? until.date.replace(/-/g, "") : formatRuleTime(last)
+      );
+    }
+    if (
+      parts.some(([key]) => key === "COUNT") &&
+      parts.some(([key]) => key === "UNTIL")
+    )
+      throw new Error(
+        "A recurrence can end by count or until a date, not both"
+      );
+    lines = [formatRule(parts)];
+  } else {
+    lines = [...existing];
+  }
+
+  if (input.exceptions?.length) {
+    if (!lines.some((line) => line.startsWith("RRULE:")))
+      throw new Error("Exceptions need a recurring event or a recurrence rule");
+    const startParts = start.dateTime
+      ? getZonedParts(new Date(start.dateTime), timeZone)
+      : undefined;
+    for (const exception of input.exceptions) {
+      const parsed = parseDateExpression(exception, { timeZone });
+      const day = parsed.date.replace(/-/g, "");
+      if (allDay) {
+        lines.push(`EXDATE;VALUE=DATE:${day}`);
+        continue;
+      }
+      const time = parsed.allDay
+        ? `T${pad(startParts!.hour)}${pad(startParts!.minute)}${pad(
+            startParts!.second
+          )}`
+        : formatRuleTime(parsed.start, timeZone).slice(8);
+      lines.push(`EXDATE;TZID=${timeZone}:${day}${time}`);
+    }
+  }
+  return lines;
+};
+
+/**
+ * Looks up the event being edited. For an instance ID, or a series ID with
+ * `instanceStart`, both the series and the instance are returned.
+ */
+export const resolveRecurringEvent = async (
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string,
+  instanceStart?: string
+): Promise<{ series: CalendarEvent; instance?: CalendarEvent }> => {
+  const { data: event } = await calendar.events.get({ calendarId, eventId });
+  if (event.recurringEventId) {
+    const { data: series } = await calendar.events.get({
+      calendarId,
+      eventId: event.recurringEventId,
+    });
+    return { series, instance: event };
+  }
+  if (!instanceStart) return { series: event };
+  if (!event.recurrence?.length)
+    throw new Error(`Event ${eventId} is not recurring`);
+
+  const parsed = parseDateExpression(instanceStart, {
+    timeZone: event.start?.timeZone || undefined,
+  });
+  const { data } = await calendar.events.instances({
+    calendarId,
+    eventId,
+    timeMin: parsed.start.toISOString(),
+    timeMax: new Date(
+      parsed.start.getTime() + (parsed.allDay ? DAY_MS : 60 * 1000)
+    ).toISOString(),
+  });
+  const instance = (data.items || []).find(
+    (item) =>
+      parsed.allDay ||
+      new Date(item.start?.dateTime || item.start?.date || 0).getTime() ===
+        parsed.start.getTime()
+  );
+  if (!instance)
+    throw new Error(
+      `No occurrence of event ${eventId} starts at "${instanceStart}"`
+    );
+  return { series: event, instance };
+};
+
+const toTime = (value?: EventDateTime | null) =>
+  new Date(value?.dateTime || value?.date || 0).getTime();
+
+const wallDate = (
+  value: EventDateTime | null | undefined,
+  timeZone: string
+) => {
+  if (value?.date) return value.date;
+  const parts = getZonedParts(toTime(value), timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Moves the series by the change made to one of its occurrences: the same
+ * number of days and the same new time of day, so a series-wide edit made
+ * on any occurrence keeps its meaning across DST changes.
+ */
+export const shiftSeriesTimes = (
+  series: CalendarEvent,
+  instance: CalendarEvent,
+  changes: CalendarEventPatch
+): CalendarEventPatch => {
+  if (!changes.start || !series.start) return changes;
+  const timeZone = changes.start.timeZone || eventTimeZone(series.start);
+  const newDate = wallDate(changes.start, timeZone);
+  const seriesDate = addDaysToDate(
+    wallDate(series.start, timeZone),
+    daysBetween(wallDate(instance.start, timeZone), newDate)
+  );
+
+  if (changes.start.date) {
+    const span = daysBetween(changes.start.date, changes.end?.date || newDate);
+    return {
+      ...changes,
+      start: { date: seriesDate, dateTime: null, timeZone: null },
+      end: {
+        date: addDaysToDate(seriesDate, Math.max(span, 1)),
+        dateTime: null,
+        timeZone: null,
+      },
+    };
+  }
+
+  const time = getZonedParts(toTime(changes.start), timeZone);
+  const [year, month, day] = seriesDate.split("-").map(Number);
+  const start = zonedTimeToUtc(
+    year,
+    month,
+    day,
+    time.hour,
+    time.minute,
+    timeZone
+  );
+  const duration = changes.end
+    ? toTime(changes.end) - toTime(changes.start)
+    : toTime(series.end) - toTime(series.start);
+  const endTimeZone = changes.end?.timeZone || timeZone;
+  return {
+    ...changes,
+    start: {
+      dateTime: formatZonedIso(start, timeZone),
+      timeZone,
+      date: null,
+    },
+    end: {
+      dateTime: formatZonedIso(start.getTime() + duration, endTimeZone),
+      timeZone: endTimeZone,
+      date: null,
+    },
+  };
+};
+
+// Fields carried over when a series is split into two
+const SERIES_FIELDS: (keyof CalendarEvent)[] = [
+  "summary",
+  "description",
+  "location",
+  "attendees",
+  "reminders",
+  "colorId",
+  "transparency",
+  "visibility",
+  "guestsCanInviteOthers",
+  "guestsCanModify",
+  "guestsCanSeeOtherGuests",
+  "extendedProperties",
+  "conferenceData",
+];
+
+/**
+ * Applies `changes` to an occurrence and every later one. The series is
+ * ended before the occurrence and a new series with the changes starts
+ * there, continuing the original rule, including a remaining COUNT.
+ */
+export const splitSeries = async (
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  series: CalendarEvent,
+  instance: CalendarEvent,
+  changes: CalendarEventPatch
+) => {
+  const splitAt = instance.originalStartTime || instance.start!;
+  const splitTime = toTime(splitAt);
+  const recurrence = series.recurrence || [];
+  const ruleLine = recurrence.find((line) => line.startsWith("RRULE:"));
+  if (!ruleLine) throw new Error(`Event ${series.id} has no RRULE to split`);
+  const rule = parseRule(ruleLine);
+
+  // From the first occurrence on is the whole series
+  if (splitTime <= toTime(series.start)) {
+    const { data } = await calendar.events.patch({
+      calendarId,
+      eventId: series.id!,
+      requestBody: toEventRequestBody(changes),
+      sendUpdates: "all",
+      conferenceDataVersion: 1,
+    });
+    return { previousSeries: undefined, newSeries: data };
+  }
+
+  let earlierRule: RuleParts;
+  let laterRule = setRulePart(rule, "UNTIL");
+  const count = rule.find(([key]) => key === "COUNT")?.[1];
+  if (count) {
+    let before = 0;
+    let pageToken: string | undefined;
+    do {
+      const { data } = await calendar.events.instances({
+        calendarId,
+        eventId: series.id!,
+        timeMax: new Date(splitTime).toISOString(),
+        showDeleted: true,
+        pageToken,
+      });
+      before += (data.items || []).filter(
+        (item) => toTime(item.originalStartTime) < splitTime
+      ).length;
+      pageToken = data.nextPageToken || undefined;
+    } while (pageToken);
+    earlierRule = setRulePart(rule, "COUNT", String(before));
+    laterRule = setRulePart(laterRule, "COUNT", String(Number(count) - before));
+  } else {
+    laterRule = rule;
+    const until = splitAt.date
+      ? new Date(splitTime - DAY_MS)
+          .toISOString()
+          .slice(0, 10)
+          .replace(/-/g, "")
+      : formatRuleTime(new Date(splitTime - 1000));
+    earlierRule = setRulePart(rule, "UNTIL", until);
+  }
+  const withRule = (parts: RuleParts) =>
+    recurrence.map((line) => (line === ruleLine ? formatRule(parts) : line));
+
+  const duration = toTime(series.end) - toTime(series.start);
+  const start = changes.start || splitAt;
+  const end =
+    changes.end ||
+    (start.dateTime
+      ? {
+          dateTime: new Date(toTime(start) + duration).toISOString(),
+          timeZone: start.timeZone,
+        }
+      : {
+          date: new Date(toTime(start) + duration).toISOString().slice(0, 10),
+        });
+
+  const carried: Partial<CalendarEvent> = Object.fromEntries(
+    SERIES_FIELDS.filter(
+      (field) => series[field] !== undefined && series[field] !== null
+    ).map((field) => [field, series[field]])
+  );
+
+  const { data: created } = await calendar.events.insert({
+    calendarId,
+    requestBody: toEventRequestBody({
+      ...carried,
+      ...changes,
+      start,
+      end,
+      recurrence: changes.recurrence || withRule(laterRule),
+    }),
+    sendUpdates: "all",
+    conferenceDataVersion: 1,
+  });
+
+  try {
+    const { data: previous } = await calendar.events.patch({
+      calendarId,
+      eventId: series.id!,
+      requestBody: { recurrence: withRule(earlierRule) },
+      sendUpdates: "all",
+    });
+    return { previousSeries: previous, newSeries: created };
+  } catch (error) {
+    // Do not leave the new series overlapping the unchanged old one
+    await calendar.events
+      .delete({ calendarId, eventId: created.id!, sendUpdates: "none" })
+      .catch(() => undefined);
+    throw error;
+  }
+};
+
+/** Occurrences of a recurring event, including moved ones. */
+export const listInstances = async (
+  calendar: calendar_v3.Calendar,
+  {
+    calendarId = "primary",
+    eventId,
+    timeMin,
+    timeMax,
+    maxResults = 25,
+    showDeleted = false,
+  }: {
+    calendarId?: string;
+    eventId: string;
+    timeMin?: string;
+    timeMax?: string;
+    maxResults?: number;
+    showDeleted?: boolean;
+  }
+) => {
+  const { data } = await calendar.events.instances({
+    calendarId,
+    eventId,
+    timeMin,
+    timeMax,
+    maxResults,
+    showDeleted,
+  });
+  return (data.items || []).map((item) => {
+    const originalStart =
+      item.originalStartTime?.dateTime || item.originalStartTime?.date;
+    const start = item.start?.dateTime || item.start?.date;
+    return {
+      id: item.id,
+      summary: item.summary,
+      start,
+      end: item.end?.dateTime || item.end?.date,
+      originalStart,
+      status: item.status,
+      // Moved occurrences start at a different time than the rule says
+      modified:
+        !!originalStart &&
+        !!start &&
+        new Date(originalStart).getTime() !== new Date(start).getTime(),
+    };
+  });
+};
@@ -0,0 +1,300 @@
+import { calendar_v3 } from "googleapis";
+import {
+  assertTimeZone,
+  formatZonedIso,
+  getLocalTimeZone,
+  getZonedParts,
+  zonedTimeToUtc,
+} from "./time-zones.js";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type WorkingHours = {
+  start?: string;
+  end?: string;
+  days?: number[];
+};
+
+export type FreeSlotOptions = {
+  timeMin: string;
+  timeMax: string;
+  durationMinutes: number;
+  calendarIds?: string[];
+  attendees?: string[];
+  optionalAttendees?: string[];
+  bufferMinutes?: number;
+  stepMinutes?: number;
+  timeZone?: string;
+  workingHours?: WorkingHours;
+  attendeeTimeZones?: Record<string, string>;
+  maxResults?: number;
+};
+
+export type FreeSlot = {
+  start: string;
+  end: string;
+  score: number;
+  localTimes: Record<string, string>;
+  optionalUnavailable: string[];
+};
+
+type Interval = { start: number; end: number };
+type Candidate = Interval & Omit<FreeSlot, "start" | "end">;
+
+// Accepts 00:00 to 23:59, plus 24:00 for the end of the day
+const parseClock = (value: string, name: string) => {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  const hour = Number(match?.[1]);
+  const minute = Number(match?.[2]);
+  if (!match || hour > 24 || minute > 59 || (hour === 24 && minute > 0))
+    throw new Error(`Invalid ${name} "${value}", expected HH:MM`);
+  return hour * 60 + minute;
+};
+
+/**
+ * Candidate starts every `step` from the start of working hours on each day
+ * between `from` and `to`, as seen on clocks in `timeZone`, so slots line up
+ * with the working day even in zones with a half-hour offset.
+ */
+const candidateStarts = (
+  from: number,
+  to: number,
+  timeZone: string,
+  hours: { start: number; end: number },
+  step: number
+) => {
+  const starts: number[] = [];
+  const first = getZonedParts(from, timeZone);
+  for (
+    let day = Date.UTC(first.year, first.month - 1, first.day);
+    ;
+    day += DAY_MS
+  ) {
+    const date = new Date(day);
+    const dayStart = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      Math.floor(hours.start / 60),
+      hours.start % 60,
+      timeZone
+    ).getTime();
+    if (dayStart >= to) break;
+
+    const dayEnd = dayStart + (hours.end - hours.start) * MINUTE_MS;
+    for (let start = dayStart; start < dayEnd && start < to; start += step)
+      if (start >= from) starts.push(start);
+  }
+  return starts;
+};
+
+/**
+ * Checks that [start, end) falls on one working day inside working hours as
+ * seen on clocks in `timeZone`. Returns how many minutes the slot sits from
+ * the start and end of the working day, or undefined when outside.
+ */
+const withinWorkingHours = (
+  start: number,
+  end: number,
+  timeZone: string,
+  hours: { start: number; end: number; days: number[] }
+) => {
+  const from = getZonedParts(start, timeZone);
+  const to = getZonedParts(end - 1, timeZone);
+  if (from.day !== to.day || !hours.days.includes(from.weekday))
+    return undefined;
+
+  const startMinute = from.hour * 60 + from.minute;
+  const endMinute = startMinute + (end - start) / MINUTE_MS;
+  if (startMinute < hours.start || endMinute > hours.end) return undefined;
+  return {
+    fromDayStart: startMinute - hours.start,
+    toDayEnd: hours.end - endMinute,
+  };
+};
+
+const overlaps = (busy: Interval[], start: number, end: number) =>
+  busy.some((interval) => interval.start < end && interval.end > start);
+
+const gapAround = (busy: Interval[], start: number, end: number) => {
+  const before = Math.min(
+    ...busy.filter((i) => i.end <= start).map((i) => start - i.end),
+    Infinity
+  );
+  const after = Math.min(
+    ...busy.filter((i) => i.start >= end).map((i) => i.start - end),
+    Infinity
+  );
+  return Math.min(before, after) / MINUTE_MS;
+};
+
+const formatLocalRange = (start: number, end: number, timeZone: string) => {
+  const day = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  }).format(start);
+  const time = (value: number) =>
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(value);
+  return `${day} ${time(start)}-${time(end)}`;
+};
+
+/**
+ * Finds meeting slots when every required calendar and attendee is free,
+ * using a single freebusy query. Candidate starts are taken every
+ * `stepMinutes` from the start of working hours in `timeZone` and must fall
+ * within working hours there and in each attendee's own zone from
+ * `attendeeTimeZones`. Busy time is padded by `bufferMinutes`
+ * on both sides.
+ *
+ * Slots are ranked by score: sooner days, more free time around the slot
+ * and staying clear of the start and end of the working day score higher,
+ * and each busy optional attendee costs points. The best non-overlapping
+ * slots are returned.
+ */
+export const findFreeSlots = async (
+  calendar: calendar_v3.Calendar,
+  options: FreeSlotOptions
+) => {
+  const timeZone = assertTimeZone(options.timeZone || getLocalTimeZone());
+  const timeMin = new Date(options.timeMin).getTime();
+  const timeMax = new Date(options.timeMax).getTime();
+  if (isNaN(timeMin) || isNaN(timeMax) || timeMax <= timeMin)
+    throw new Error("timeMin and timeMax must be valid with timeMin first");
+  if (!(options.durationMinutes > 0))
+    throw new Error("durationMinutes must be greater than zero");
+
+  const hours = {
+    start: parseClock(options.workingHours?.start || "09:00", "start time"),
+    end: parseClock(options.workingHours?.end || "17:00", "end time"),
+    days: options.workingHours?.days || [1, 2, 3, 4, 5],
+  };
+  if (hours.end <= hours.start)
+    throw new Error("Working hours must end after they start");
+  const attendeeTimeZones = Object.entries(options.attendeeTimeZones || {});
+  attendeeTimeZones.forEach(([, zone]) => assertTimeZone(zone));
+
+  const required = [
+    ...new Set([
+      ...(options.calendarIds?.length || options.attendees?.length
+        ? options.calendarIds || []
+        : ["primary"]),
+      ...(options.attendees || []),
+    ]),
+  ];
+  const optional = (options.optionalAttendees || []).filter(
+    (id) => !required.includes(id)
+  );
+
+  const { data } = await calendar.freebusy.query({
+    requestBody: {
+      timeMin: new Date(timeMin).toISOString(),
+      timeMax: new Date(timeMax).toISOString(),
+      timeZone,
+      items: [...required, ...optional].map((id) => ({ id })),
+    },
+  });
+
+  const unavailableCalendars: { id: string; reason: string }[] = [];
+  const busyOf = (id: string): Interval[] => {
+    const entry = data.calendars?.[id];
+    if (entry?.errors?.length) {
+      unavailableCalendars.push({
+        id,
+        reason: entry.errors.map((e) => e.reason).join(", "),
+      });
+    }
+    return (entry?.busy || []).map((period) => ({
+      start: new Date(period.start!).getTime(),
+      end: new Date(period.end!).getTime(),
+    }));
+  };
+
+  const buffer = (options.bufferMinutes || 0) * MINUTE_MS;
+  const requiredBusy = required
+    .flatMap(busyOf)
+    .map(({ start, end }) => ({ start: start - buffer, end: end + buffer }));
+  const optionalBusy = optional.map((id) => ({ id, busy: busyOf(id) }));
+
+  const duration = options.durationMinutes * MINUTE_MS;
+  const step = (options.stepMinutes || 30) * MINUTE_MS;
+  const candidates: Candidate[] = [];
+
+  for (const start of candidateStarts(
+    Math.max(timeMin, Date.now()),
+    timeMax,
+    timeZone,
+    hours,
+    step
+  )) {
+    const end = start + duration;
+    if (end > timeMax) break;
+    const position = withinWorkingHours(start, end, timeZone, hours);
+    if (!position) continue;
+    if (
+      attendeeTimeZones.some(
+        ([, zone]) => !withinWorkingHours(start, end, zone, hours)
+      )
+    )
+      continue;
+    if (overlaps(requiredBusy, start, end)) continue;
+
+    const optionalUnavailable = optionalBusy
+      .filter(({ busy }) => overlaps(busy, start, end))
+      .map(({ id }) => id);
+    const daysOut = Math.floor((start - timeMin) / DAY_MS);
+    const edge = Math.min(position.fromDayStart, position.toDayEnd);
+    const score =
+      100 -
+      daysOut * 3 -
+      (edge < 60 ? 10 : 0) +
+      Math.min(gapAround(requiredBusy, start, end), 60) / 6 -
+      optionalUnavailable.length * 15;
+
+    const localTimes: Record<string, string> = {
+      [timeZone]: formatLocalRange(start, end, timeZone),
+    };
+    for (const [attendee, zone] of attendeeTimeZones)
+      localTimes[attendee] = formatLocalRange(start, end, zone);
+
+    candidates.push({
+      start,
+      end,
+      score: Math.round(score * 10) / 10,
+      localTimes,
+      optionalUnavailable,
+    });
+  }
+
+  // Best first, skipping candidates that overlap a slot already chosen
+  const chosen: Candidate[] = [];
+  for (const candidate of [...candidates].sort(
+    (a, b) => b.score - a.score || a.start - b.start
+  )) {
+    if (chosen.length >= (options.maxResults || 10)) break;
+    if (!overlaps(chosen, candidate.start, candidate.end))
+      chosen.push(candidate);
+  }
+
+  return {
+    timeZone,
+    durationMinutes: options.durationMinutes,
+    checked: { required, optional },
+    unavailableCalendars,
+    candidatesFound: candidates.length,
+    slots: chosen.map(
+      ({ start, end, ...slot }): FreeSlot => ({
+        ...slot,
+        start: formatZonedIso(start, timeZone),
+        end: formatZonedIso(end, timeZone),
+      })
+    ),
+  };
+};
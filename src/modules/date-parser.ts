@@ -0,0 +1,777 @@
+import {
+  assertTimeZone,
+  getLocalTimeZone,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./time-zones.js";
+
+// Natural language date and time parsing shared by the calendar and task tools
+
+const MINUTE_MS = 60 * 1000;
+
+const PARSE_HINT =
+  'Use an ISO date like 2025-03-14 or 2025-03-14T15:00, or phrases like "tomorrow 9am", "next Tuesday 3pm", "in 2 hours" or "2-4pm Friday"';
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  weds: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  january: 1,
+  feb: 2,
+  february: 2,
+  mar: 3,
+  march: 3,
+  apr: 4,
+  april: 4,
+  may: 5,
+  jun: 6,
+  june: 6,
+  jul: 7,
+  july: 7,
+  aug: 8,
+  august: 8,
+  sep: 9,
+  sept: 9,
+  september: 9,
+  oct: 10,
+  october: 10,
+  nov: 11,
+  november: 11,
+  dec: 12,
+  december: 12,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  "a couple of": 2,
+  "a few": 3,
+  "half a": 0.5,
+  "half an": 0.5,
+};
+
+// Regional names, and fixed-offset abbreviations in minutes east of UTC
+// with the zone that uses them. The offset reads the time as written; the
+// zone is what events get, so recurring ones follow its DST changes.
+const TIME_ZONE_ABBREVIATIONS: Record<
+  string,
+  string | { offset: number; zone: string }
+> = {
+  utc: "UTC",
+  gmt: "UTC",
+  z: "UTC",
+  et: "America/New_York",
+  ct: "America/Chicago",
+  mt: "America/Denver",
+  pt: "America/Los_Angeles",
+  est: { offset: -300, zone: "America/New_York" },
+  edt: { offset: -240, zone: "America/New_York" },
+  cst: { offset: -360, zone: "America/Chicago" },
+  cdt: { offset: -300, zone: "America/Chicago" },
+  mst: { offset: -420, zone: "America/Denver" },
+  mdt: { offset: -360, zone: "America/Denver" },
+  pst: { offset: -480, zone: "America/Los_Angeles" },
+  pdt: { offset: -420, zone: "America/Los_Angeles" },
+  bst: { offset: 60, zone: "Europe/London" },
+  cet: { offset: 60, zone: "Europe/Paris" },
+  cest: { offset: 120, zone: "Europe/Paris" },
+  eet: { offset: 120, zone: "Europe/Athens" },
+  eest: { offset: 180, zone: "Europe/Athens" },
+  ist: "Asia/Kolkata",
+  sgt: "Asia/Singapore",
+  hkt: "Asia/Hong_Kong",
+  jst: "Asia/Tokyo",
+  aest: { offset: 600, zone: "Australia/Sydney" },
+  aedt: { offset: 660, zone: "Australia/Sydney" },
+};
+
+// Default times for parts of the day when no clock time is given
+const DAY_PARTS: Record<string, number> = {
+  morning: 9 * 60,
+  midday: 12 * 60,
+  afternoon: 14 * 60,
+  evening: 18 * 60,
+  night: 20 * 60,
+  tonight: 20 * 60,
+};
+
+const alternation = (words: string[]) =>
+  [...words].sort((a, b) => b.length - a.length).join("|");
+
+const WEEKDAY_PATTERN = alternation(Object.keys(WEEKDAYS));
+const MONTH_PATTERN = alternation(Object.keys(MONTHS));
+const AMOUNT_PATTERN = `\\d+(?:\\.\\d+)?|${alternation(
+  Object.keys(NUMBER_WORDS)
+)}`;
+const UNIT_PATTERN =
+  "minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|wks?|w|months?|years?|yrs?";
+const DURATION_PATTERN = `(?:(?:${AMOUNT_PATTERN})\\s*(?:${UNIT_PATTERN})\\b(?:\\s*(?:and\\s+)?)?)+`;
+const TIME_PATTERN =
+  "\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2}|noon|midnight";
+const LOOSE_TIME_PATTERN = `${TIME_PATTERN}|\\d{1,2}`;
+
+type WallDate = { year: number; month: number; day: number };
+type ClockTime = { minutes: number; meridiem?: "am" | "pm" };
+
+type Zone = {
+  name?: string;
+  toInstant: (date: WallDate, minutes: number) => Date;
+  wallTime: (instant: Date) => WallDate & { minutes: number };
+};
+
+export type DurationParts = { months: number; days: number; minutes: number };
+
+export type ParsedDateTime = {
+  /** Start instant; midnight in the time zone for all-day results */
+  start: Date;
+  /**
+   * End instant, when the input held a range or a duration. It is exclusive,
+   * so the all-day range "March 3 to March 5" ends at midnight on March 6.
+   */
+  end?: Date;
+  /** Calendar date of the start in the time zone, YYYY-MM-DD */
+  date: string;
+  /** Calendar date of the end in the time zone, YYYY-MM-DD */
+  endDate?: string;
+  /** True when no time of day was given */
+  allDay: boolean;
+  /**
+   * IANA time zone the input was read in, when it has one. For abbreviations
+   * like PST it is the zone that uses them.
+   */
+  timeZone?: string;
+};
+
+export type DateParseOptions = {
+  /** Reference time for relative input (default: now) */
+  now?: Date;
+  /** IANA time zone for wall-clock input (default: the server's time zone) */
+  timeZone?: string;
+  /** Date used when the input only has a time, e.g. a range's start date */
+  defaultDate?: string;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatWallDate = ({ year, month, day }: WallDate) =>
+  `${year}-${pad(month)}-${pad(day)}`;
+
+const addToDate = (date: WallDate, days: number, months = 0): WallDate => {
+  const result = new Date(
+    Date.UTC(date.year, date.month - 1 + months, date.day + days)
+  );
+  return {
+    year: result.getUTCFullYear(),
+    month: result.getUTCMonth() + 1,
+    day: result.getUTCDate(),
+  };
+};
+
+/** Adds days to a YYYY-MM-DD date. */
+export const addDaysToDate = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatWallDate(addToDate({ year, month, day }, days));
+};
+
+const weekdayOf = (date: WallDate) =>
+  new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+const isValidWallDate = (date: WallDate) => {
+  const check = addToDate(date, 0);
+  return (
+    check.year === date.year &&
+    check.month === date.month &&
+    check.day === date.day
+  );
+};
+
+const ianaZone = (name: string): Zone => ({
+  name,
+  toInstant: (date, minutes) =>
+    zonedTimeToUtc(
+      date.year,
+      date.month,
+      date.day,
+      Math.floor(minutes / 60),
+      minutes % 60,
+      name
+    ),
+  wallTime: (instant) => {
+    const parts = getZonedParts(instant, name);
+    return { ...parts, minutes: parts.hour * 60 + parts.minute };
+  },
+});
+
+const fixedZone = (offset: number, name?: string): Zone => ({
+  // Etc/GMT names have inverted signs and only exist for whole hours
+  name:
+    name ??
+    (offset % 60 === 0
+      ? offset === 0
+        ? "UTC"
+        : `Etc/GMT${offset > 0 ? "-" : "+"}${Math.abs(offset / 60)}`
+      : undefined),
+  toInstant: (date, minutes) =>
+    new Date(
+      Date.UTC(date.year, date.month - 1, date.day) +
+        (minutes - offset) * MINUTE_MS
+    ),
+  wallTime: (instant) => {
+    const shifted = new Date(instant.getTime() + offset * MINUTE_MS);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+      minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes(),
+    };
+  },
+});
+
+const fail = (input: string, detail?: string): never => {
+  throw new Error(
+    `Could not understand the date/time "${input}"${
+      detail ? ` (${detail})` : ""
+    }. ${PARSE_HINT}`
+  );
+};
+
+/**
+ * Reads durations like "90 minutes", "1h 30m", "2 weeks" or "half an hour"
+ * into months, days and minutes. Returns undefined when the text is not a
+ * duration.
+ */
+export const parseDurationParts = (text: string): DurationParts | undefined => {
+  const normalized = text.trim().toLowerCase();
+  if (!new RegExp(`^(?:${DURATION_PATTERN})$`).test(normalized))
+    return undefined;
+
+  const parts: DurationParts = { months: 0, days: 0, minutes: 0 };
+  const pair = new RegExp(`(${AMOUNT_PATTERN})\\s*(${UNIT_PATTERN})\\b`, "g");
+  for (const [, amountText, unit] of normalized.matchAll(pair)) {
+    const amount = NUMBER_WORDS[amountText] ?? Number(amountText);
+    if (/^(m|mins?|minutes?)$/.test(unit)) parts.minutes += amount;
+    else if (/^(h|hrs?|hours?)$/.test(unit)) parts.minutes += amount * 60;
+    else if (/^(d|days?)$/.test(unit)) parts.days += amount;
+    else if (/^(w|wks?|weeks?)$/.test(unit)) parts.days += amount * 7;
+    else if (/^months?$/.test(unit)) parts.months += amount;
+    else parts.months += amount * 12;
+  }
+  // Fractional days and months are carried into smaller units
+  parts.minutes += (parts.days % 1) * 24 * 60;
+  parts.days = Math.floor(parts.days);
+  parts.days += Math.round((parts.months % 1) * 30);
+  parts.months = Math.floor(parts.months);
+  return parts;
+};
+
+/** Length of a duration like "1.5 hours" or "45 min" in minutes. */
+export const parseDuration = (text: string) => {
+  const parts = parseDurationParts(text);
+  if (!parts || parts.months)
+    throw new Error(
+      `Could not understand the duration "${text}", use e.g. "45 minutes", "1h 30m" or "2 days"`
+    );
+  return parts.days * 24 * 60 + parts.minutes;
+};
+
+const shiftInstant = (
+  zone: Zone,
+  instant: Date,
+  { months, days, minutes }: DurationParts
+) => {
+  if (!months && !days)
+    return new Date(instant.getTime() + minutes * MINUTE_MS);
+  const wall = zone.wallTime(instant);
+  const date = addToDate(wall, days, months);
+  return new Date(
+    zone.toInstant(date, wall.minutes).getTime() +
+      instant.getSeconds() * 1000 +
+      minutes * MINUTE_MS
+  );
+};
+
+const parseClockTime = (token: string): ClockTime | undefined => {
+  if (token === "noon" || token === "midday") return { minutes: 12 * 60 };
+  if (token === "midnight") return { minutes: 0 };
+  const match = token.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return undefined;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] || 0);
+  const meridiem = match[3] as ClockTime["meridiem"];
+  if (minute > 59 || hour > (meridiem ? 12 : 24) || (meridiem && hour === 0))
+    return undefined;
+  // Without am/pm, "at 5" or "3:30" mean the afternoon; "05:00" stays early
+  if (!meridiem && /^[1-6]$/.test(match[1])) hour += 12;
+  return { minutes: hour * 60 + minute, meridiem };
+};
+
+const applyMeridiem = (time: ClockTime, meridiem = time.meridiem) => {
+  const hour = Math.floor(time.minutes / 60) % 12;
+  const minutes = time.minutes % 60;
+  if (!meridiem) return time.minutes;
+  return (meridiem === "pm" ? hour + 12 : hour) * 60 + minutes;
+};
+
+/**
+ * Resolves a time range where only one end says am or pm, e.g. "2-4pm" is
+ * 14:00-16:00 but "11-1pm" is 11:00-13:00.
+ */
+const resolveTimeRange = (start: ClockTime, end: ClockTime) => {
+  if (start.meridiem || !end.meridiem) {
+    const startMinutes = applyMeridiem(start);
+    let endMinutes = applyMeridiem(end, end.meridiem || start.meridiem);
+    if (!end.meridiem && start.meridiem && endMinutes <= startMinutes)
+      endMinutes = applyMeridiem(end, start.meridiem === "am" ? "pm" : "am");
+    return [startMinutes, endMinutes];
+  }
+  let startMinutes = applyMeridiem(start, end.meridiem);
+  const endMinutes = applyMeridiem(end);
+  if (startMinutes > endMinutes)
+    startMinutes = applyMeridiem(start, end.meridiem === "pm" ? "am" : "pm");
+  return [startMinutes, endMinutes];
+};
+
+const extractTimeZone = (text: string) => {
+  // IANA names such as Europe/Berlin or America/Argentina/Buenos_Aires
+  const iana = text.match(/\b[a-z]+(?:\/[a-z0-9_+-]+)+\b/i);
+  if (iana && isValidTimeZone(iana[0])) {
+    const name = new Intl.DateTimeFormat("en-US", {
+      timeZone: iana[0],
+    }).resolvedOptions().timeZone;
+    return { zone: ianaZone(name), rest: text.replace(iana[0], " ") };
+  }
+
+  const offset = text.match(
+    /(?:\b(?:utc|gmt)\s*|\s)([+-])(\d{1,2})(?::?(\d{2}))?\s*$|\b(?:utc|gmt)\s*([+-])(\d{1,2})(?::?(\d{2}))?\b/i
+  );
+  if (offset) {
+    const [sign, hours, minutes] = offset[1]
+      ? [offset[1], offset[2], offset[3]]
+      : [offset[4], offset[5], offset[6]];
+    // A bare trailing "-4" is part of a range like "2-4", not an offset
+    if (offset[1] && !/utc|gmt/i.test(offset[0]) && !minutes)
+      return { rest: text };
+    const value =
+      (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes || 0));
+    return { zone: fixedZone(value), rest: text.replace(offset[0], " ") };
+  }
+
+  const abbreviation = text.match(
+    new RegExp(
+      `\\b(${alternation(Object.keys(TIME_ZONE_ABBREVIATIONS))})\\b\\s*$`,
+      "i"
+    )
+  );
+  if (abbreviation) {
+    const value = TIME_ZONE_ABBREVIATIONS[abbreviation[1].toLowerCase()];
+    return {
+      zone:
+        typeof value === "string"
+          ? ianaZone(value)
+          : fixedZone(value.offset, value.zone),
+      rest: text.slice(0, abbreviation.index),
+    };
+  }
+  return { rest: text };
+};
+
+const parseIsoDateTime = (text: string, zone: Zone) => {
+  const match = text.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[t\s](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) return undefined;
+
+  const date = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+  };
+  if (!isValidWallDate(date)) return undefined;
+  if (match[4] === undefined) return { date };
+
+  const minutes = Number(match[4]) * 60 + Number(match[5]);
+  const seconds = Number(match[6] || 0) * 1000;
+  if (match[7]) {
+    const instant = new Date(text.toUpperCase().replace(" ", "T"));
+    if (isNaN(instant.getTime())) return undefined;
+    return { date, instant };
+  }
+  return {
+    date,
+    instant: new Date(zone.toInstant(date, minutes).getTime() + seconds),
+  };
+};
+
+/**
+ * Finds the calendar date named in `text`, returning it with the text that
+ * was not used. Weekdays mean the next such day, today included; "next"
+ * means that day in next week (Monday to Sunday), so "next Tuesday" said on
+ * a Monday is eight days later, and "last" looks back.
+ */
+const extractDate = (text: string, today: WallDate) => {
+  const take = (match: RegExpMatchArray, date: WallDate) => ({
+    date,
+    rest: text.replace(match[0], " "),
+  });
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/\b(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/)))
+    return take(match, {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+    });
+
+  if ((match = text.match(/\b(?:the\s+)?day after tomorrow\b/)))
+    return take(match, addToDate(today, 2));
+  if ((match = text.match(/\b(?:the\s+)?day before yesterday\b/)))
+    return take(match, addToDate(today, -2));
+  if ((match = text.match(/\b(today|tonight|tomorrow|tmrw|yesterday)\b/)))
+    return take(
+      match,
+      addToDate(
+        today,
+        match[1] === "yesterday"
+          ? -1
+          : match[1].startsWith("t") &&
+            match[1] !== "today" &&
+            match[1] !== "tonight"
+          ? 1
+          : 0
+      )
+    );
+
+  if (
+    (match = text.match(
+      new RegExp(`\\b(?:(next|this|coming|last)\\s+)?(${WEEKDAY_PATTERN})\\b`)
+    ))
+  ) {
+    const target = WEEKDAYS[match[2]];
+    const current = weekdayOf(today);
+    let offset = (target - current + 7) % 7;
+    // "next Tuesday" is the Tuesday of next week, weeks starting on Monday
+    if (match[1] === "next")
+      offset = 7 - ((current + 6) % 7) + ((target + 6) % 7);
+    if (match[1] === "last") offset = offset === 0 ? -7 : offset - 7;
+    return take(match, addToDate(today, offset));
+  }
+
+  const monthDay =
+    text.match(
+      new RegExp(
+        `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s*(\\d{4})\\b)?`
+      )
+    ) ||
+    text.match(
+      new RegExp(
+        `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b\\.?(?:,?\\s*(\\d{4})\\b)?`
+      )
+    );
+  if (monthDay) {
+    const [month, day] = MONTHS[monthDay[1]]
+      ? [MONTHS[monthDay[1]], Number(monthDay[2])]
+      : [MONTHS[monthDay[2]], Number(monthDay[1])];
+    let date = {
+      year: Number(monthDay[3]) || today.year,
+      month,
+      day,
+    };
+    // Without a year, a date that has passed means next year's
+    if (!monthDay[3] && formatWallDate(date) < formatWallDate(today))
+      date = { ...date, year: date.year + 1 };
+    return take(monthDay, date);
+  }
+
+  if (
+    (match = text.match(/\b(next|this|last)\s+(week|month|year|weekend)\b/))
+  ) {
+    const step = match[1] === "next" ? 1 : match[1] === "last" ? -1 : 0;
+    if (match[2] === "week") {
+      const monday = addToDate(today, -((weekdayOf(today) + 6) % 7));
+      return take(match, addToDate(monday, step * 7));
+    }
+    if (match[2] === "weekend") {
+      const saturday = addToDate(today, (6 - weekdayOf(today) + 7) % 7);
+      return take(match, addToDate(saturday, step * 7));
+    }
+    if (match[2] === "month")
+      return take(match, addToDate({ ...today, day: 1 }, 0, step));
+    return take(match, { year: today.year + step, month: 1, day: 1 });
+  }
+
+  return { date: undefined, rest: text };
+};
+
+// Whether the input named a date or its own time zone, for combining ranges
+type SingleResult = ParsedDateTime & { dated: boolean; zoned: boolean };
+
+const parseSingle = (
+  input: string,
+  options: DateParseOptions
+): SingleResult => {
+  const now = options.now || new Date();
+  let text = input
+    .trim()
+    .replace(/[–—]/g, "-")
+    .replace(/\b([ap])\.m\./gi, "$1m")
+    .replace(/\s+/g, " ");
+  if (!text) fail(input, "it is empty");
+
+  const extracted = extractTimeZone(text);
+  const zone =
+    extracted.zone ||
+    ianaZone(assertTimeZone(options.timeZone || getLocalTimeZone()));
+  text = extracted.rest.toLowerCase().trim();
+
+  let dated = true;
+  const result = (start: Date, allDay: boolean, end?: Date): SingleResult => ({
+    start,
+    end,
+    date: formatWallDate(zone.wallTime(start)),
+    endDate: end ? formatWallDate(zone.wallTime(end)) : undefined,
+    allDay,
+    timeZone: zone.name,
+    dated,
+    zoned: !!extracted.zone,
+  });
+
+  const iso = parseIsoDateTime(text, zone);
+  if (iso)
+    return iso.instant
+      ? result(iso.instant, false)
+      : result(zone.toInstant(iso.date, 0), true);
+
+  // "for 90 minutes" sets the end, applied once the start is known
+  let duration: DurationParts | undefined;
+  const forMatch = text.match(new RegExp(`\\bfor\\s+(${DURATION_PATTERN})`));
+  if (forMatch) {
+    duration = parseDurationParts(forMatch[1]);
+    text = text.replace(forMatch[0], " ");
+  }
+
+  if (/^now$/.test(text.trim())) return result(now, false);
+
+  // "in 2 hours", "3 days from now", "a week ago"
+  let relative: DurationParts | undefined;
+  let relativeSign = 1;
+  const relativeMatch =
+    text.match(new RegExp(`\\bin\\s+(${DURATION_PATTERN})`)) ||
+    text.match(
+      new RegExp(`\\b(${DURATION_PATTERN})\\s*(from now|later|ago)\\b`)
+    );
+  if (relativeMatch) {
+    relative = parseDurationParts(relativeMatch[1]);
+    if (relativeMatch[2] === "ago") relativeSign = -1;
+    text = text.replace(relativeMatch[0], " ");
+  }
+
+  let startMinutes: number | undefined;
+  let endMinutes: number | undefined;
+  const range = text.match(
+    new RegExp(
+      `(?:\\b(?:from|between)\\s+)?\\b(${LOOSE_TIME_PATTERN})\\s*(?:-|to|until|till|and)\\s*(${TIME_PATTERN})\\b`
+    )
+  );
+  if (range) {
+    const start = parseClockTime(range[1].trim());
+    const end = parseClockTime(range[2].trim());
+    if (!start || !end) fail(input, "invalid time range");
+    [startMinutes, endMinutes] = resolveTimeRange(start!, end!);
+    text = text.replace(range[0], " ");
+  } else {
+    const time =
+      text.match(new RegExp(`\\b(?:at\\s+)?(${TIME_PATTERN})\\b`)) ||
+      text.match(/\bat\s+(\d{1,2})\b/);
+    if (time) {
+      const clock = parseClockTime(time[1].trim());
+      if (!clock) fail(input, `invalid time "${time[1]}"`);
+      startMinutes = applyMeridiem(clock!);
+      text = text.replace(time[0], " ");
+    }
+  }
+
+  const dayPart = text.match(
+    new RegExp(
+      `\\b(?:this\\s+|in the\\s+)?(${Object.keys(DAY_PARTS).join("|")})\\b`
+    )
+  );
+  if (dayPart) {
+    startMinutes ??= DAY_PARTS[dayPart[1]];
+    // "tonight" also names the day
+    text = text.replace(dayPart[0], dayPart[1] === "tonight" ? " today " : " ");
+  }
+
+  const wallNow = zone.wallTime(now);
+  const { date: namedDate, rest } = extractDate(text, wallNow);
+  const leftover = rest
+    .replace(/\b(on|at|the|of|by|from|starting)\b/g, " ")
+    .replace(/[,.;]/g, " ")
+    .trim();
+  if (leftover) fail(input, `"${leftover}" was not recognized`);
+  if (namedDate && !isValidWallDate(namedDate))
+    fail(input, "no such calendar date");
+  dated = !!namedDate || !!relative;
+
+  let start: Date;
+  let allDay = false;
+  if (relative && !namedDate) {
+    const signed = {
+      months: relative.months * relativeSign,
+      days: relative.days * relativeSign,
+      minutes: relative.minutes * relativeSign,
+    };
+    start = shiftInstant(zone, now, signed);
+    if (startMinutes !== undefined)
+      start = zone.toInstant(zone.wallTime(start), startMinutes);
+  } else {
+    const baseDate =
+      namedDate ||
+      (options.defaultDate
+        ? parseIsoDateTime(options.defaultDate, zone)?.date
+        : undefined) ||
+      wallNow;
+    if (!namedDate && startMinutes === undefined && !relative)
+      fail(input, "no date or time found");
+    if (startMinutes === undefined) {
+      allDay = true;
+      start = zone.toInstant(baseDate, 0);
+    } else {
+      start = zone.toInstant(baseDate, startMinutes);
+    }
+  }
+
+  let end: Date | undefined;
+  if (endMinutes !== undefined) {
+    const startDate = zone.wallTime(start);
+    end = zone.toInstant(
+      // Ranges like "10pm-1am" end the next day
+      addToDate(startDate, endMinutes <= startMinutes! ? 1 : 0),
+      endMinutes
+    );
+  } else if (duration) {
+    end = shiftInstant(zone, start, duration);
+  }
+
+  return result(start, allDay, end);
+};
+
+/**
+ * Parses a date, time or range written as ISO 8601 or in everyday English:
+ * "tomorrow 9am", "next Tuesday 3pm", "in 2 hours", "2-4pm Friday",
+ * "March 5 10:00 for 45 minutes" or "Monday 9am to Tuesday 5pm". A trailing
+ * IANA zone, abbreviation (PST, CET) or UTC offset sets the time zone.
+ * Throws when any part of the input is not understood rather than guessing.
+ */
+export const parseDateExpression = (
+  input: string,
+  options: DateParseOptions = {}
+): ParsedDateTime => {
+  // Ranges written as two expressions, e.g. "Monday 9am to Tuesday 5pm"
+  const split = input.match(/^(.+?)\s+(?:to|until|till|-|–)\s+(.+)$/i);
+  if (split) {
+    let range: ParsedDateTime | undefined;
+    try {
+      range = parseRange(split[1], split[2], options);
+    } catch {
+      // Not two complete expressions, e.g. "2 - 4pm"; parse it as one
+    }
+    if (range) return range;
+  }
+  const { dated, zoned, ...single } = parseSingle(input, options);
+  return single;
+};
+
+/**
+ * Combines the two ends of a range. A date or time zone named on only one
+ * side applies to both, so "2pm to 4pm Friday" is on Friday, and an end
+ * time before the start moves to the next day, as in "10pm to 1am Friday".
+ */
+const parseRange = (
+  startText: string,
+  endText: string,
+  options: DateParseOptions
+): ParsedDateTime | undefined => {
+  let start = parseSingle(startText, options);
+  const endOptions = (date: string) => ({
+    ...options,
+    timeZone: start.timeZone || options.timeZone,
+    defaultDate: date,
+  });
+  let end = parseSingle(endText, endOptions(start.date));
+  if ((!start.dated && end.dated) || (!start.zoned && end.zoned)) {
+    start = parseSingle(startText, {
+      ...options,
+      timeZone: end.timeZone || options.timeZone,
+      defaultDate: end.dated ? end.date : undefined,
+    });
+    if (!end.dated) end = parseSingle(endText, endOptions(start.date));
+  }
+  if (
+    !(start.dated && end.dated) &&
+    !start.allDay &&
+    !end.allDay &&
+    end.start.getTime() <= start.start.getTime()
+  )
+    end = parseSingle(endText, endOptions(addDaysToDate(start.date, 1)));
+  if (end.start.getTime() < start.start.getTime()) return undefined;
+
+  const { dated, zoned, ...range } = start;
+  if (!end.allDay)
+    return {
+      ...range,
+      end: end.end || end.start,
+      endDate: end.endDate || end.date,
+      allDay: false,
+    };
+  // A last day ends at the following midnight, like a duration in days
+  const endDate = addDaysToDate(end.endDate || end.date, 1);
+  return {
+    ...range,
+    end: parseSingle(endDate, {
+      ...options,
+      timeZone: end.timeZone || options.timeZone,
+    }).start,
+    endDate,
+  };
+};
+
+/** Parses `input` to an ISO 8601 instant (UTC), see parseDateExpression. */
+export const parseDateTime = (input: string, options?: DateParseOptions) =>
+  parseDateExpression(input, options).start.toISOString();
+
+/** Parses `input` to a calendar date, YYYY-MM-DD, see parseDateExpression. */
+export const parseDate = (input: string, options?: DateParseOptions) =>
+  parseDateExpression(input, options).date;
@@ -0,0 +1,154 @@
+// Best-effort plain text extraction from common attachment formats
+import path from "path";
+import zlib from "zlib";
+import mammoth from "mammoth";
+import { htmlToText } from "./email-text.js";
+
+const TEXT_EXTENSIONS = [".txt", ".csv", ".tsv", ".md", ".json", ".xml"];
+
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export const docxToText = async (content: Buffer) => {
+  const { value } = await mammoth.extractRawText({ buffer: content });
+  return value.replace(/\n{3,}/g, "\n\n").trim();
+};
+
+const decodePdfString = (value: string) =>
+  value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+    const map: Record<string, string> = {
+      n: "\n",
+      r: "\r",
+      t: "\t",
+      b: "\b",
+      f: "\f",
+      "(": "(",
+      ")": ")",
+      "\\": "\\",
+    };
+    return map[escape] ?? String.fromCharCode(parseInt(escape, 8));
+  });
+
+const decodePdfHexString = (hex: string) => {
+  const bytes = Buffer.from(hex.replace(/\s/g, "").padEnd(2, "0"), "hex");
+  // Two-byte strings starting with a BOM are UTF-16BE
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return bytes.subarray(2).swap16().toString("utf16le");
+  }
+  return bytes.toString("latin1");
+};
+
+const extractContentStreamText = (stream: string) => {
+  const lines: string[] = [];
+  let line = "";
+  const tokens = stream.matchAll(
+    /\((?:\\.|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/\S+|[A-Za-z'"*]+/g
+  );
+
+  for (const [token] of tokens) {
+    if (token.startsWith("(")) {
+      line += decodePdfString(token.slice(1, -1));
+    } else if (token.startsWith("<")) {
+      line += decodePdfHexString(token.slice(1, -1));
+    } else if (/^-\d{3,}/.test(token)) {
+      // Large negative kerning inside a TJ array is a word gap
+      line += " ";
+    } else if (["Td", "TD", "T*", "'", '"', "ET"].includes(token)) {
+      if (line.trim()) lines.push(line.trim());
+      line = "";
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines.join("\n");
+};
+
+// Control characters stand for glyph numbers, e.g. of CID fonts
+// (Identity-H), that only the font's ToUnicode map could turn into text
+const UNDECODABLE_REGEX = /[\x00-\x08\x0e-\x1f\x7f-\x9f\ufffd]/g;
+
+const isReadable = (text: string) => {
+  const visible = text.replace(/\s/g, "");
+  const undecodable = visible.match(UNDECODABLE_REGEX)?.length || 0;
+  return visible.length > 0 && undecodable / visible.length < 0.05;
+};
+
+/**
+ * Pulls the text drawing operators out of a PDF's (optionally deflated)
+ * content streams. Works for most generated documents; throws when the PDF
+ * has no text layer (scanned pages) or its fonts map characters in ways
+ * that are not decoded here, rather than returning garbage.
+ */
+export const pdfToText = (content: Buffer) => {
+  const raw = content.toString("latin1");
+  const texts: string[] = [];
+  const streamRegex = /<<((?:(?!>>)[\s\S])*)>>\s*stream\r?\n/g;
+
+  for (const match of raw.matchAll(streamRegex)) {
+    const dictionary = match[1];
+    if (
+      /\/(Subtype\s*\/Image|Type\s*\/(XObject|ObjStm|XRef)|Length1)/.test(
+        dictionary
+      )
+    )
+      continue;
+
+    const start = (match.index || 0) + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) continue;
+
+    let data = content.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      try {
+        data = zlib.inflateSync(data);
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(dictionary)) {
+      continue;
+    }
+
+    const text = extractContentStreamText(data.toString("latin1"));
+    if (text) texts.push(text);
+  }
+
+  const text = texts
+    .join("\n")
+    .replace(/[^\S\n]+/g, " ")
+    .trim();
+  if (!text)
+    throw new Error(
+      "Text not extractable: the PDF has no text layer, it may be scanned"
+    );
+  if (!isReadable(text))
+    throw new Error(
+      "Text not extractable: the PDF's fonts use an encoding that cannot be decoded"
+    );
+  return text;
+};
+
+/**
+ * Returns the readable text of a file, or undefined for formats we cannot
+ * convert (images, archives, spreadsheets and so on).
+ */
+export const extractDocumentText = async (
+  content: Buffer,
+  mimeType: string,
+  filename = ""
+): Promise<string | undefined> => {
+  const extension = path.extname(filename).toLowerCase();
+
+  if (mimeType === "application/pdf" || extension === ".pdf")
+    return pdfToText(content);
+  if (mimeType === DOCX_MIME_TYPE || extension === ".docx")
+    return docxToText(content);
+  if (mimeType === "text/html" || extension === ".html")
+    return htmlToText(content.toString("utf-8"));
+  if (
+    mimeType.startsWith("text/") ||
+    mimeType === "application/json" ||
+    TEXT_EXTENSIONS.includes(extension)
+  )
+    return content.toString("utf-8").replace(/^\ufeff/, "");
+
+  return undefined;
+};
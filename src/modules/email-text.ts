@@ -0,0 +1,116 @@
+// Helpers that turn decoded email bodies into compact, readable text
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  copy: "©",
+  reg: "®",
+};
+
+// Lines that introduce quoted history; everything from here on is dropped
+const QUOTE_HEADER_PATTERNS = [
+  // "On <date or time> <name and address> wrote:", possibly wrapped onto a
+  // second line, directly followed by > quoted lines
+  /^On\s[^\n]*(?:\d{1,2}:\d{2}|\d{4})[^\n]*?(?:\n[^\n>]*?)?@[^\n]*?(?:\n[^\n>]*?)?wrote:[ \t]*\n(?:[ \t]*\n)*>/im,
+  /^-{2,}\s*Original Message\s*-{2,}$/im,
+  /^-{2,}\s*Forwarded message\s*-{2,}$/im,
+  /^_{20,}$/m,
+  /^From: .+$\n^(Sent|Date): .+$/im,
+  /^Le .+a écrit :$/im,
+  /^Am .+schrieb .+:$/im,
+];
+
+// Lines that start a signature block
+const SIGNATURE_PATTERNS = [
+  /^-- ?$/,
+  /^Sent from my \w+/i,
+  /^Get Outlook for \w+/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail) for /i,
+];
+
+export const decodeHtmlEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Converts an HTML body to plain text: drops head, style and script blocks,
+ * turns block-level elements into line breaks, keeps link targets and
+ * decodes entities.
+ */
+export const htmlToText = (html: string) =>
+  decodeHtmlEntities(
+    html
+      .replace(/<(head|style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(
+        /<a\s[^>]*href="(https?:[^"]+)"[^>]*>([\s\S]*?)<\/a>/gi,
+        (_, href, label) =>
+          label.replace(/<[^>]+>/g, "").trim() === href
+            ? href
+            : `${label} (${href})`
+      )
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol|blockquote)>/gi, "\n")
+      .replace(/<blockquote[^>]*>/gi, "\n> ")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+/**
+ * Removes quoted history from a reply: `>` prefixed lines and everything
+ * after an attribution line such as "On Mon, Jan 1, Alice wrote:".
+ */
+export const stripQuotedHistory = (text: string) => {
+  let result = text.replace(/\r\n/g, "\n");
+
+  for (const pattern of QUOTE_HEADER_PATTERNS) {
+    const match = result.match(pattern);
+    if (match?.index !== undefined) result = result.slice(0, match.index);
+  }
+
+  return result
+    .split("\n")
+    .filter((line) => !line.trimStart().startsWith(">"))
+    .join("\n");
+};
+
+export const stripSignature = (text: string) => {
+  const lines = text.split("\n");
+  const index = lines.findIndex((line) =>
+    SIGNATURE_PATTERNS.some((pattern) => pattern.test(line.trimEnd()))
+  );
+  return index === -1 ? text : lines.slice(0, index).join("\n");
+};
+
+/**
+ * Reduces a message body to just the text the sender wrote: no quoted
+ * history, no signature and no runs of blank lines.
+ */
+export const cleanMessageText = (text: string) =>
+  stripSignature(stripQuotedHistory(text))
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
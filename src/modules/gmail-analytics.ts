@@ -0,0 +1,356 @@
+import { gmail_v1 } from "googleapis";
+import {
+  Message,
+  chunkArray,
+  extractEmailAddress,
+  findHeader,
+  listAllMessageIds,
+  parseAddressList,
+} from "./gmail.js";
+
+// Number of metadata requests made in parallel
+const FETCH_CONCURRENCY = 10;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RESPONSE_TIME_BUCKETS: { label: string; maxHours: number }[] = [
+  { label: "< 1 hour", maxHours: 1 },
+  { label: "1-4 hours", maxHours: 4 },
+  { label: "4-24 hours", maxHours: 24 },
+  { label: "1-3 days", maxHours: 72 },
+  { label: "> 3 days", maxHours: Infinity },
+];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export type AnalyticsOptions = {
+  after?: string;
+  before?: string;
+  q?: string;
+  maxMessages?: number;
+  timeZone?: string;
+  topN?: number;
+};
+
+type Count = { name: string; count: number };
+
+export type ResponseTimeStats = {
+  count: number;
+  medianHours?: number;
+  p90Hours?: number;
+  distribution: Count[];
+};
+
+export type MailboxAnalytics = {
+  range: { after: string; before: string; timeZone: string };
+  totals: { messages: number; received: number; sent: number; unread: number };
+  truncated: boolean;
+  volume: { period: string; received: number; sent: number }[];
+  topSenders: Count[];
+  topRecipients: Count[];
+  yourResponseTimes: ResponseTimeStats;
+  theirResponseTimes: ResponseTimeStats;
+  unreadByLabel: Count[];
+  busiestHours: Count[];
+  busiestWeekdays: Count[];
+};
+
+const parseRangeDate = (value: string, name: string) => {
+  const time = new Date(value).getTime();
+  if (isNaN(time)) throw new Error(`Invalid ${name} date: ${value}`);
+  return time;
+};
+
+const topCounts = (counts: Map<string, number>, limit?: number): Count[] =>
+  [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit);
+
+const increment = (counts: Map<string, number>, key: string, by = 1) =>
+  counts.set(key, (counts.get(key) || 0) + by);
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const summarizeResponseTimes = (hours: number[]): ResponseTimeStats => {
+  const sorted = [...hours].sort((a, b) => a - b);
+  const round = (value: number | undefined) =>
+    value === undefined ? undefined : Math.round(value * 10) / 10;
+
+  return {
+    count: sorted.length,
+    medianHours: round(percentile(sorted, 0.5)),
+    p90Hours: round(percentile(sorted, 0.9)),
+    distribution: RESPONSE_TIME_BUCKETS.map((bucket, i) => ({
+      name: bucket.label,
+      count: sorted.filter(
+        (h) =>
+          h < bucket.maxHours &&
+          (i === 0 || h >= RESPONSE_TIME_BUCKETS[i - 1].maxHours)
+      ).length,
+    })),
+  };
+};
+
+const fetchMetadata = async (
+  gmail: gmail_v1.Gmail,
+  ids: string[],
+  onProgress?: (done: number, total: number) => Promise<void> | void
+) => {
+  const messages: Message[] = [];
+  for (const batch of chunkArray(ids, FETCH_CONCURRENCY)) {
+    messages.push(
+      ...(await Promise.all(
+        batch.map(async (id) => {
+          const { data } = await gmail.users.messages.get({
+            userId: "me",
+            id,
+            format: "metadata",
+            metadataHeaders: ["From", "To", "Cc", "Bcc"],
+          });
+          return data;
+        })
+      ))
+    );
+    await onProgress?.(messages.length, ids.length);
+  }
+  return messages;
+};
+
+/**
+ * Gathers mailbox statistics for a date range from message metadata only.
+ * Response times pair each message with the previous message in its thread
+ * from the other side, so they only cover threads inside the range.
+ */
+export const collectMailboxAnalytics = async (
+  gmail: gmail_v1.Gmail,
+  options: AnalyticsOptions = {},
+  onProgress?: (done: number, total: number) => Promise<void> | void
+): Promise<MailboxAnalytics> => {
+  const before = options.before
+    ? parseRangeDate(options.before, "before")
+    : Date.now();
+  const after = options.after
+    ? parseRangeDate(options.after, "after")
+    : before - 30 * DAY_MS;
+  const timeZone =
+    options.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const maxMessages = options.maxMessages ?? 2000;
+
+  // Drafts are neither sent nor received, so they would count as received
+  const query = [
+    `after:${Math.floor(after / 1000)}`,
+    `before:${Math.floor(before / 1000)}`,
+    "-in:drafts",
+    options.q || "",
+  ]
+    .join(" ")
+    .trim();
+  const ids = await listAllMessageIds(gmail, {
+    q: query,
+    maxMessages: maxMessages + 1,
+  });
+  const truncated = ids.length > maxMessages;
+  const messages = await fetchMetadata(
+    gmail,
+    ids.slice(0, maxMessages),
+    onProgress
+  );
+
+  const { data: labelData } = await gmail.users.labels.list({ userId: "me" });
+  const labelNames = new Map(
+    (labelData.labels || []).map((label) => [label.id, label.name || label.id])
+  );
+
+  // Daily buckets for up to two months, weekly up to a year, then monthly
+  const spanDays = (before - after) / DAY_MS;
+  const dateFormat = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  });
+  const hourFormat = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    hourCycle: "h23",
+  });
+  const weekdayFormat = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+  });
+  const periodOf = (time: number) => {
+    const day = dateFormat.format(time);
+    if (spanDays <= 62) return day;
+    if (spanDays > 366) return day.slice(0, 7);
+    // Weeks start on Monday
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return `week of ${date.toISOString().slice(0, 10)}`;
+  };
+
+  const volume = new Map<string, { received: number; sent: number }>();
+  const senders = new Map<string, number>();
+  const recipients = new Map<string, number>();
+  const unreadByLabel = new Map<string, number>();
+  const hours = new Map<string, number>();
+  const weekdays = new Map<string, number>();
+  const threads = new Map<string, { time: number; sent: boolean }[]>();
+  let sentCount = 0;
+  let unreadCount = 0;
+
+  for (const message of messages) {
+    const time = Number(message.internalDate || 0);
+    const labels = message.labelIds || [];
+    const headers = message.payload?.headers || [];
+    const sent = labels.includes("SENT");
+
+    const period = periodOf(time);
+    const bucket = volume.get(period) || { received: 0, sent: 0 };
+    if (sent) bucket.sent++;
+    else bucket.received++;
+    volume.set(period, bucket);
+
+    if (sent) {
+      sentCount++;
+      for (const header of ["to", "cc", "bcc"]) {
+        for (const address of parseAddressList(findHeader(headers, header)))
+          increment(recipients, extractEmailAddress(address));
+      }
+    } else {
+      increment(
+        senders,
+        extractEmailAddress(findHeader(headers, "from") || "")
+      );
+      increment(hours, hourFormat.format(time));
+      increment(weekdays, weekdayFormat.format(time));
+    }
+
+    if (labels.includes("UNREAD")) {
+      unreadCount++;
+      for (const id of labels) {
+        if (id !== "UNREAD") increment(unreadByLabel, labelNames.get(id) || id);
+      }
+    }
+
+    if (message.threadId) {
+      const entries = threads.get(message.threadId) || [];
+      entries.push({ time, sent });
+      threads.set(message.threadId, entries);
+    }
+  }
+
+  const yourResponses: number[] = [];
+  const theirResponses: number[] = [];
+  for (const entries of threads.values()) {
+    entries.sort((a, b) => a.time - b.time);
+    for (let i = 1; i < entries.length; i++) {
+      if (entries[i].sent === entries[i - 1].sent) continue;
+      const hoursTaken = (entries[i].time - entries[i - 1].time) / HOUR_MS;
+      (entries[i].sent ? yourResponses : theirResponses).push(hoursTaken);
+    }
+  }
+
+  const topN = options.topN ?? 10;
+  return {
+    range: {
+      after: new Date(after).toISOString(),
+      before: new Date(before).toISOString(),
+      timeZone,
+    },
+    totals: {
+      messages: messages.length,
+      received: messages.length - sentCount,
+      sent: sentCount,
+      unread: unreadCount,
+    },
+    truncated,
+    volume: [...volume.entries()]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([period, counts]) => ({ period, ...counts })),
+    topSenders: topCounts(senders, topN),
+    topRecipients: topCounts(recipients, topN),
+    yourResponseTimes: summarizeResponseTimes(yourResponses),
+    theirResponseTimes: summarizeResponseTimes(theirResponses),
+    unreadByLabel: topCounts(unreadByLabel),
+    busiestHours: topCounts(hours, 5).map(({ name, count }) => ({
+      name: `${name}:00`,
+      count,
+    })),
+    busiestWeekdays: WEEKDAYS.map((day) => ({
+      name: day,
+      count: weekdays.get(day) || 0,
+    })),
+  };
+};
+
+const markdownTable = (headers: string[], rows: (string | number)[][]) =>
+  [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ].join("\n");
+
+export const formatAnalyticsMarkdown = (report: MailboxAnalytics) => {
+  const responseRow = (name: string, stats: ResponseTimeStats) => [
+    name,
+    stats.count,
+    stats.medianHours ?? "-",
+    stats.p90Hours ?? "-",
+    ...stats.distribution.map((bucket) => bucket.count),
+  ];
+
+  return [
+    `# Mailbox analytics ${report.range.after.slice(
+      0,
+      10
+    )} to ${report.range.before.slice(0, 10)}`,
+    `${report.totals.messages} messages (${report.totals.received} received, ${report.totals.sent} sent, ${report.totals.unread} unread)` +
+      (report.truncated ? ", truncated at maxMessages" : ""),
+    "## Volume",
+    markdownTable(
+      ["Period", "Received", "Sent"],
+      report.volume.map((v) => [v.period, v.received, v.sent])
+    ),
+    "## Top senders",
+    markdownTable(
+      ["Sender", "Messages"],
+      report.topSenders.map((s) => [s.name, s.count])
+    ),
+    "## Top recipients",
+    markdownTable(
+      ["Recipient", "Messages"],
+      report.topRecipients.map((r) => [r.name, r.count])
+    ),
+    "## Response times",
+    markdownTable(
+      [
+        "Who",
+        "Replies",
+        "Median (h)",
+        "P90 (h)",
+        ...RESPONSE_TIME_BUCKETS.map((bucket) => bucket.label),
+      ],
+      [
+        responseRow("You", report.yourResponseTimes),
+        responseRow("Others", report.theirResponseTimes),
+      ]
+    ),
+    "## Unread by label",
+    markdownTable(
+      ["Label", "Unread"],
+      report.unreadByLabel.map((l) => [l.name, l.count])
+    ),
+    "## Busiest hours (received)",
+    markdownTable(
+      ["Hour", "Messages"],
+      report.busiestHours.map((h) => [h.name, h.count])
+    ),
+    "## Received by weekday",
+    markdownTable(
+      report.busiestWeekdays.map((d) => d.name),
+      [report.busiestWeekdays.map((d) => d.count)]
+    ),
+  ].join("\n\n");
+};
@@ -0,0 +1,609 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { gmail_v1 } from "googleapis";
+import { configManager } from "../utils/configManager.js";
+import { chunkArray, ensureLabels, listAllMessageIds } from "./gmail.js";
+import { sanitizeFilename } from "./gmail-attachments.js";
+
+// Number of raw messages fetched in parallel
+const FETCH_CONCURRENCY = 10;
+const MANIFEST_FILE = "manifest.json";
+const MBOX_FILE = "messages.mbox";
+
+// Common mail client folder names and their Gmail system labels
+const SYSTEM_FOLDER_LABELS: Record<string, string> = {
+  inbox: "INBOX",
+  sent: "SENT",
+  "sent items": "SENT",
+  "sent mail": "SENT",
+  "sent messages": "SENT",
+  starred: "STARRED",
+  important: "IMPORTANT",
+  unread: "UNREAD",
+  trash: "TRASH",
+  "deleted items": "TRASH",
+  "deleted messages": "TRASH",
+  spam: "SPAM",
+  junk: "SPAM",
+  "junk email": "SPAM",
+  "junk e-mail": "SPAM",
+  drafts: "DRAFT",
+};
+
+// Gmail refuses these system labels on import, so user labels stand in
+const IMPORT_LABEL_REPLACEMENTS: Record<string, string> = {
+  SENT: "Sent (imported)",
+  DRAFT: "Drafts (imported)",
+};
+
+// Folders and Takeout labels that have no label equivalent on import
+const IGNORED_FOLDERS = ["all mail", "archived", "opened", "chat"];
+
+export type ExportFormat = "mbox" | "eml";
+
+export type ExportedMessage = {
+  id: string;
+  threadId?: string;
+  messageId?: string;
+  subject?: string;
+  from?: string;
+  date: string;
+  labels: string[];
+  size: number;
+  file?: string;
+  offset?: number;
+};
+
+export type ExportManifest = {
+  format: ExportFormat;
+  q?: string;
+  labelIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+  complete: boolean;
+  mboxSize?: number;
+  messages: ExportedMessage[];
+};
+
+/**
+ * Reads the header block of a raw RFC 822 message into a lower-cased map,
+ * unfolding continuation lines. Later duplicates of a header are ignored.
+ */
+export const parseRawHeaders = (raw: Buffer | string) => {
+  const text = raw.toString("latin1");
+  const end = text.search(/\r?\n\r?\n/);
+  const headers: Record<string, string> = {};
+
+  for (const line of (end === -1 ? text : text.slice(0, end))
+    .replace(/\r?\n[ \t]+/g, " ")
+    .split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+};
+
+// mbox "From " separator lines use the asctime format in UTC
+const asctime = (date: Date) => {
+  const [weekday, day, month, year, time] = date
+    .toUTCString()
+    .replace(",", "")
+    .split(" ");
+  return `${weekday} ${month} ${String(Number(day)).padStart(
+    2,
+    " "
+  )} ${time} ${year}`;
+};
+
+/**
+ * Formats labels for an X-Gmail-Labels header as comma-separated UTF-8, as
+ * Google Takeout writes them. Labels holding a comma or quote are quoted.
+ */
+const formatLabelsHeader = (labels: string[]) =>
+  labels
+    .map((label) =>
+      /[",\\]/.test(label) ? `"${label.replace(/["\\]/g, "\\$&")}"` : label
+    )
+    .join(",");
+
+/**
+ * Splits an X-Gmail-Labels value read by `parseRawHeaders` back into
+ * labels, decoding the UTF-8 that was read as Latin-1 and honouring quotes.
+ */
+const parseLabelsHeader = (value: string) => {
+  const text = Buffer.from(value, "latin1").toString("utf-8");
+  const labels: string[] = [];
+  let label = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes && char === "\\") {
+      label += text[++i] ?? "";
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      labels.push(label);
+      label = "";
+    } else {
+      label += char;
+    }
+  }
+  labels.push(label);
+  return labels.map((label) => label.trim()).filter((label) => label);
+};
+
+/**
+ * Formats one message as an mboxrd entry: a "From " separator, the message
+ * with LF line endings and ">"-quoted "From " lines, and a blank line.
+ * Labels are kept in an X-Gmail-Labels header, as in Google Takeout.
+ */
+const toMboxEntry = (
+  raw: Buffer,
+  sender: string,
+  date: Date,
+  labels: string[]
+) => {
+  const body = raw
+    .toString("latin1")
+    .replace(/\r\n/g, "\n")
+    .replace(/^(>*From )/gm, ">$1");
+  const labelHeader = labels.length
+    ? `X-Gmail-Labels: ${formatLabelsHeader(labels)}\n`
+    : "";
+  // The message keeps its own bytes while the label header is UTF-8
+  return Buffer.concat([
+    Buffer.from(
+      `From ${sender || "MAILER-DAEMON"} ${asctime(date)}\n${labelHeader}`,
+      "utf-8"
+    ),
+    Buffer.from(`${body}${body.endsWith("\n") ? "" : "\n"}\n`, "latin1"),
+  ]);
+};
+
+const emlFilename = (message: ExportedMessage) => {
+  const stamp = message.date
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  const subject = sanitizeFilename(
+    (message.subject || "no subject").replace(/[/\\]/g, "_")
+  ).slice(0, 60);
+  return `${stamp}_${subject}_${message.id}.eml`;
+};
+
+export const getExportDir = () =>
+  configManager.getGeneralConfig().gmailExportDir;
+
+const readManifest = (dir: string): ExportManifest | undefined => {
+  const file = path.join(dir, MANIFEST_FILE);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf-8"));
+};
+
+const writeManifest = (dir: string, manifest: ExportManifest) => {
+  manifest.updatedAt = new Date().toISOString();
+  fs.writeFileSync(
+    path.join(dir, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2),
+    "utf-8"
+  );
+};
+
+/**
+ * Exports messages matching a query and/or labels as an mbox file or a
+ * folder of .eml files, with a manifest.json listing every message written.
+ * The manifest is saved after each batch, so running again with the same
+ * `outputDir` skips what was already exported and resumes where an
+ * interrupted or `maxMessages`-limited run stopped.
+ */
+export const exportMessages = async (
+  gmail: gmail_v1.Gmail,
+  options: {
+    q?: string;
+    labelIds?: string[];
+    format?: ExportFormat;
+    outputDir?: string;
+    maxMessages?: number;
+    includeSpamTrash?: boolean;
+  },
+  onProgress?: (done: number, total: number) => Promise<void> | void
+) => {
+  const outputDir = path.resolve(
+    options.outputDir ||
+      path.join(
+        getExportDir(),
+        `export-${new Date().toISOString().replace(/[:.]/g, "-")}`
+      )
+  );
+
+  const now = new Date().toISOString();
+  const manifest: ExportManifest = readManifest(outputDir) || {
+    format: options.format || "mbox",
+    q: options.q,
+    labelIds: options.labelIds,
+    createdAt: now,
+    updatedAt: now,
+    complete: false,
+    messages: [],
+  };
+  if (options.format && options.format !== manifest.format)
+    throw new Error(
+      `${outputDir} already holds a ${manifest.format} export, use another outputDir for ${options.format}`
+    );
+  if (!manifest.q && !manifest.labelIds?.length)
+    throw new Error("Provide a search query or label IDs to export");
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  const mboxPath = path.join(outputDir, MBOX_FILE);
+  if (manifest.format === "mbox") {
+    // Drop anything appended after the last manifest save
+    const size = manifest.mboxSize || 0;
+    if (!fs.existsSync(mboxPath)) fs.writeFileSync(mboxPath, "");
+    if (fs.statSync(mboxPath).size !== size) fs.truncateSync(mboxPath, size);
+  }
+
+  const { data: labelData } = await gmail.users.labels.list({ userId: "me" });
+  const labelNames = new Map(
+    (labelData.labels || []).map((label) => [label.id, label.name || label.id])
+  );
+
+  const exported = new Set(manifest.messages.map((message) => message.id));
+  const ids = await listAllMessageIds(gmail, {
+    q: manifest.q,
+    labelIds: manifest.labelIds,
+    includeSpamTrash: options.includeSpamTrash,
+  });
+  const remaining = ids.filter((id) => !exported.has(id));
+  const queue = remaining.slice(0, options.maxMessages);
+
+  let done = 0;
+  for (const batch of chunkArray(queue, FETCH_CONCURRENCY)) {
+    const messages = await Promise.all(
+      batch.map(async (id) => {
+        const { data } = await gmail.users.messages.get({
+          userId: "me",
+          id,
+          format: "raw",
+        });
+        return data;
+      })
+    );
+
+    for (const message of messages) {
+      const raw = Buffer.from(message.raw || "", "base64url");
+      const headers = parseRawHeaders(raw);
+      const date = new Date(Number(message.internalDate || 0));
+      const entry: ExportedMessage = {
+        id: message.id!,
+        threadId: message.threadId || undefined,
+        messageId: headers["message-id"],
+        subject: headers["subject"],
+        from: headers["from"],
+        date: date.toISOString(),
+        labels: (message.labelIds || []).map((id) => labelNames.get(id) || id),
+        size: raw.length,
+      };
+
+      if (manifest.format === "mbox") {
+        const sender = (headers["return-path"] || headers["from"] || "").match(
+          /[^\s<>]+@[^\s<>]+/
+        )?.[0];
+        const mboxEntry = toMboxEntry(raw, sender || "", date, entry.labels);
+        entry.offset = manifest.mboxSize || 0;
+        fs.appendFileSync(mboxPath, mboxEntry);
+        manifest.mboxSize = entry.offset + mboxEntry.length;
+      } else {
+        entry.file = emlFilename(entry);
+        fs.writeFileSync(path.join(outputDir, entry.file), raw);
+      }
+      manifest.messages.push(entry);
+    }
+
+    manifest.complete = done + batch.length === remaining.length;
+    writeManifest(outputDir, manifest);
+    done += batch.length;
+    await onProgress?.(done, queue.length);
+  }
+
+  manifest.complete = queue.length === remaining.length;
+  writeManifest(outputDir, manifest);
+
+  return {
+    outputDir,
+    format: manifest.format,
+    file: manifest.format === "mbox" ? mboxPath : undefined,
+    manifest: path.join(outputDir, MANIFEST_FILE),
+    exportedThisRun: queue.length,
+    alreadyExported: exported.size,
+    totalExported: manifest.messages.length,
+    remaining: remaining.length - queue.length,
+    complete: manifest.complete,
+  };
+};
+
+export type ImportOptions = {
+  path: string;
+  labelMap?: Record<string, string>;
+  labelIds?: string[];
+  maxMessages?: number;
+  dryRun?: boolean;
+};
+
+type ImportSource = { file: string; kind: "eml" | "mbox"; labels: string[] };
+
+export type ImportedMessage = {
+  source: string;
+  messageId?: string;
+  subject?: string;
+  labels: string[];
+  status: "imported" | "duplicate" | "failed" | "dry_run";
+  id?: string;
+  error?: string;
+};
+
+/**
+ * Turns a folder name or Takeout label into a Gmail label name: system
+ * folders map to system labels, "Category Updates" to CATEGORY_UPDATES,
+ * and folders like "All Mail" are dropped. `labelMap` entries win, and an
+ * empty mapping drops the folder.
+ */
+const folderToLabel = (
+  folder: string,
+  labelMap: Record<string, string> = {}
+) => {
+  const mapped = Object.keys(labelMap).find(
+    (key) => key.toLowerCase() === folder.toLowerCase()
+  );
+  if (mapped !== undefined) return labelMap[mapped].trim() || undefined;
+
+  // "[Gmail]/Sent Mail" style IMAP paths name system folders by their last part
+  const last = folder.split("/").pop()!.trim().toLowerCase();
+  if (SYSTEM_FOLDER_LABELS[last]) return SYSTEM_FOLDER_LABELS[last];
+  if (IGNORED_FOLDERS.includes(last)) return undefined;
+  const category = last.match(/^category[ _](\w+)$/);
+  if (category) return `CATEGORY_${category[1].toUpperCase()}`;
+  return folder.replace(/^\[Gmail\]\//i, "");
+};
+
+const isMboxFile = (file: string) => {
+  if (path.extname(file).toLowerCase() === ".mbox") return true;
+  if (path.extname(file)) return false;
+  // Thunderbird and Apple Mail keep mbox folders in extensionless files
+  const fd = fs.openSync(file, "r");
+  try {
+    const start = Buffer.alloc(5);
+    fs.readSync(fd, start, 0, 5, 0);
+    return start.toString("latin1") === "From ";
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Lists the .eml and mbox files to import. Inside a directory each file is
+ * labeled after the folder it sits in (mbox files after their own name),
+ * except in a `gmail_export` folder whose messages already carry labels.
+ */
+const findImportSources = (input: string): ImportSource[] => {
+  const root = path.resolve(input);
+  if (!fs.existsSync(root)) throw new Error(`${root} does not exist`);
+  if (fs.statSync(root).isFile())
+    return [
+      {
+        file: root,
+        kind: root.toLowerCase().endsWith(".eml") ? "eml" : "mbox",
+        labels: [],
+      },
+    ];
+
+  const manifest = readManifest(root);
+  const exportLabels = new Map(
+    (manifest?.messages || [])
+      .filter((message) => message.file)
+      .map((message) => [path.join(root, message.file!), message.labels])
+  );
+
+  const sources: ImportSource[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs
+      .readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(file);
+        continue;
+      }
+      const folder = path.relative(root, dir).split(path.sep).join("/");
+      if (entry.name.toLowerCase().endsWith(".eml")) {
+        sources.push({
+          file,
+          kind: "eml",
+          labels: manifest
+            ? exportLabels.get(file) || []
+            : folder
+            ? [folder]
+            : [],
+        });
+      } else if (isMboxFile(file)) {
+        const name = path
+          .relative(root, file)
+          .split(path.sep)
+          .join("/")
+          .replace(/\.mbox$/i, "");
+        sources.push({ file, kind: "mbox", labels: manifest ? [] : [name] });
+      }
+    }
+  };
+  walk(root);
+  return sources;
+};
+
+/**
+ * Streams the messages of an mbox file without loading it whole. Messages
+ * start at "From " lines that follow a blank line, and one level of
+ * ">From " quoting is removed (mboxrd).
+ */
+async function* readMbox(file: string) {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, { encoding: "latin1" }),
+    crlfDelay: Infinity,
+  });
+
+  let message: string[] | undefined;
+  let previousBlank = true;
+  const finish = (lines: string[]) => {
+    while (lines.length && !lines[lines.length - 1]) lines.pop();
+    return Buffer.from(lines.join("\r\n") + "\r\n", "latin1");
+  };
+
+  for await (const line of lines) {
+    if (previousBlank && line.startsWith("From ")) {
+      if (message?.length) yield finish(message);
+      message = [];
+    } else if (message) {
+      message.push(line.replace(/^>(>*From )/, "$1"));
+    }
+    previousBlank = line === "";
+  }
+  if (message?.length) yield finish(message);
+}
+
+async function* readImportSource(source: ImportSource) {
+  if (source.kind === "eml") {
+    yield fs.readFileSync(source.file);
+  } else {
+    yield* readMbox(source.file);
+  }
+}
+
+/**
+ * Imports an mbox file, an .eml file or a directory of them into Gmail with
+ * `users.messages.import`, keeping each message's original Date header.
+ * Folder names and X-Gmail-Labels headers become labels, created when
+ * missing. Messages whose Message-ID is already in the mailbox are skipped,
+ * so an interrupted or repeated import can simply be run again.
+ */
+export const importMessages = async (
+  gmail: gmail_v1.Gmail,
+  options: ImportOptions,
+  onProgress?: (processed: number) => Promise<void> | void
+) => {
+  const sources = findImportSources(options.path);
+  const labelIds = new Map<string, string>();
+  const seenMessageIds = new Set<string>();
+  const results: ImportedMessage[] = [];
+  // Imported messages, or in a dry run the ones that would be
+  let imported = 0;
+
+  const replaceLabel = (label: string) =>
+    IMPORT_LABEL_REPLACEMENTS[label] ?? label;
+  const extraLabelIds = (options.labelIds || []).filter(
+    (id) => !IMPORT_LABEL_REPLACEMENTS[id]
+  );
+  const extraLabels = (options.labelIds || [])
+    .filter((id) => IMPORT_LABEL_REPLACEMENTS[id])
+    .map(replaceLabel);
+
+  const resolveLabels = async (names: string[]) => {
+    const missing = names.filter((name) => !labelIds.has(name));
+    if (missing.length && !options.dryRun) {
+      const ids = await ensureLabels(gmail, missing);
+      for (const [name, id] of Object.entries(ids)) labelIds.set(name, id);
+    }
+    return names.map((name) => labelIds.get(name)!).filter((id) => id);
+  };
+
+  // IDs are remembered once imported, so a failed copy can be retried
+  const isDuplicate = async (messageId: string) => {
+    if (seenMessageIds.has(messageId)) return true;
+    const { data } = await gmail.users.messages.list({
+      userId: "me",
+      q: `rfc822msgid:${messageId.replace(/^<|>$/g, "")}`,
+      includeSpamTrash: true,
+      maxResults: 1,
+    });
+    return !!data.messages?.length;
+  };
+
+  outer: for (const source of sources) {
+    for await (const raw of readImportSource(source)) {
+      if (options.maxMessages !== undefined && imported >= options.maxMessages)
+        break outer;
+
+      const headers = parseRawHeaders(raw);
+      const folders = [
+        ...source.labels,
+        ...parseLabelsHeader(headers["x-gmail-labels"] || ""),
+      ];
+      const labels = [
+        ...new Set([
+          ...folders
+            .map((folder) => folderToLabel(folder, options.labelMap))
+            .filter((label): label is string => !!label)
+            .map(replaceLabel),
+          ...extraLabels,
+        ]),
+      ];
+      const result: ImportedMessage = {
+        source:
+          path.relative(path.resolve(options.path), source.file) ||
+          path.basename(source.file),
+        messageId: headers["message-id"],
+        subject: headers["subject"],
+        labels,
+        status: "dry_run",
+      };
+      results.push(result);
+
+      try {
+        if (result.messageId && (await isDuplicate(result.messageId))) {
+          result.status = "duplicate";
+        } else if (options.dryRun) {
+          if (result.messageId) seenMessageIds.add(result.messageId);
+          imported++;
+        } else {
+          const { data } = await gmail.users.messages.import({
+            userId: "me",
+            internalDateSource: "dateHeader",
+            neverMarkSpam: true,
+            requestBody: {
+              raw: raw.toString("base64url"),
+              labelIds: [...(await resolveLabels(labels)), ...extraLabelIds],
+            },
+          });
+          result.status = "imported";
+          result.id = data.id || undefined;
+          if (result.messageId) seenMessageIds.add(result.messageId);
+          imported++;
+        }
+      } catch (error: any) {
+        result.status = "failed";
+        result.error = error.message;
+      }
+      await onProgress?.(results.length);
+    }
+  }
+
+  const count = (status: ImportedMessage["status"]) =>
+    results.filter((result) => result.status === status).length;
+  return {
+    files: sources.length,
+    processed: results.length,
+    imported: count("imported"),
+    duplicates: count("duplicate"),
+    failed: count("failed"),
+    wouldImport: options.dryRun ? count("dry_run") : undefined,
+    withoutMessageId: results.filter((result) => !result.messageId).length,
+    stoppedAtMaxMessages:
+      options.maxMessages !== undefined && imported >= options.maxMessages,
+    labels: [...new Set(results.flatMap((result) => result.labels))],
+    failures: results
+      .filter((result) => result.status === "failed")
+      .map(({ source, messageId, error }) => ({ source, messageId, error })),
+    messages: options.dryRun ? results.slice(0, 50) : undefined,
+  };
+};
@@ -0,0 +1,133 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { gmail_v1 } from "googleapis";
+import { configManager } from "../utils/configManager.js";
+import { Message, getMessageAttachments, guessMimeType } from "./gmail.js";
+import { extractDocumentText } from "./document-text.js";
+
+// Remembers which content hash was saved under which file name
+const HASH_INDEX_FILE = ".attachments-index.json";
+const MAX_FILENAME_LENGTH = 200;
+
+export type SavedAttachment = {
+  messageId: string;
+  filename: string;
+  path: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  duplicate: boolean;
+  textPath?: string;
+  text?: string;
+  textTruncated?: boolean;
+  textError?: string;
+};
+
+export const getAttachmentsDir = () =>
+  configManager.getGeneralConfig().gmailAttachmentsDir;
+
+/**
+ * Turns an attachment name into something safe to write: no directories,
+ * no reserved or control characters, no leading dots and a bounded length.
+ */
+export const sanitizeFilename = (name: string) => {
+  const base = path
+    .basename(name.replace(/\\/g, "/"))
+    .replace(/[\u0000-\u001f<>:"/\\|?*]/g, "_")
+    .replace(/^[.\s]+|[.\s]+$/g, "")
+    .trim();
+  if (!base) return "attachment";
+
+  const extension = path.extname(base).slice(0, 20);
+  const stem = base.slice(0, base.length - extension.length);
+  return stem.slice(0, MAX_FILENAME_LENGTH - extension.length) + extension;
+};
+
+const readHashIndex = (dir: string): Record<string, string> => {
+  try {
+    const file = path.join(dir, HASH_INDEX_FILE);
+    if (fs.existsSync(file)) return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (e) {
+    console.warn(`Could not read attachment index in ${dir}: ${e}`);
+  }
+  return {};
+};
+
+const uniquePath = (dir: string, filename: string) => {
+  const extension = path.extname(filename);
+  const stem = filename.slice(0, filename.length - extension.length);
+  let candidate = path.join(dir, filename);
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = path.join(dir, `${stem} (${i})${extension}`);
+  }
+  return candidate;
+};
+
+/**
+ * Writes every attachment of `message` into `dir`. Files whose content was
+ * already saved there (same SHA-256) are not written again. With
+ * `extractText`, readable text is stored next to the file as `<name>.txt`
+ * and returned, cut to `maxTextLength` characters.
+ */
+export const saveMessageAttachments = async (
+  gmail: gmail_v1.Gmail,
+  message: Message,
+  dir: string,
+  options: { extractText?: boolean; maxTextLength?: number } = {}
+) => {
+  const { extractText = false, maxTextLength = 20000 } = options;
+  fs.mkdirSync(dir, { recursive: true });
+  const hashIndex = readHashIndex(dir);
+
+  const saved: SavedAttachment[] = [];
+  for (const attachment of await getMessageAttachments(gmail, message)) {
+    const content = Buffer.from(attachment.data || "", "base64");
+    const sha256 = crypto.createHash("sha256").update(content).digest("hex");
+    const filename = sanitizeFilename(attachment.filename || "attachment");
+    const mimeType = attachment.mimeType || guessMimeType(filename);
+
+    const existing = hashIndex[sha256];
+    const duplicate = !!existing && fs.existsSync(path.join(dir, existing));
+    const filePath = duplicate
+      ? path.join(dir, existing)
+      : uniquePath(dir, filename);
+
+    if (!duplicate) {
+      fs.writeFileSync(filePath, content);
+      hashIndex[sha256] = path.basename(filePath);
+    }
+
+    const result: SavedAttachment = {
+      messageId: message.id || "",
+      filename: path.basename(filePath),
+      path: filePath,
+      mimeType,
+      size: content.length,
+      sha256,
+      duplicate,
+    };
+
+    if (extractText) {
+      try {
+        const text = await extractDocumentText(content, mimeType, filename);
+        if (text !== undefined) {
+          result.textPath = `${filePath}.txt`;
+          if (!duplicate || !fs.existsSync(result.textPath))
+            fs.writeFileSync(result.textPath, text, "utf-8");
+          result.text = text.slice(0, maxTextLength);
+          result.textTruncated = text.length > maxTextLength;
+        }
+      } catch (error: any) {
+        result.textError = error.message;
+      }
+    }
+    saved.push(result);
+  }
+
+  fs.writeFileSync(
+    path.join(dir, HASH_INDEX_FILE),
+    JSON.stringify(hashIndex, null, 2)
+  );
+  return saved;
+};
@@ -0,0 +1,353 @@
+import fs from "fs";
+import path from "path";
+import { gmail_v1 } from "googleapis";
+import { configManager } from "../utils/configManager.js";
+import {
+  Message,
+  MessagePart,
+  chunkArray,
+  findHeader,
+  listAllMessageIds,
+} from "./gmail.js";
+
+// Number of messages fetched in parallel while syncing
+const FETCH_CONCURRENCY = 10;
+const DEFAULT_INITIAL_QUERY = "newer_than:90d";
+const DEFAULT_INITIAL_MAX_MESSAGES = 1000;
+
+export type CachedMessageSummary = {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  snippet: string;
+  internalDate: number;
+  historyId: string;
+  sizeEstimate: number;
+  from: string;
+  to: string;
+  subject: string;
+  date: string;
+  hasAttachments: boolean;
+};
+
+export type CacheState = {
+  emailAddress?: string;
+  historyId?: string;
+  lastFullSyncAt?: string;
+  lastSyncAt?: string;
+};
+
+export type SyncResult = {
+  mode: "full" | "incremental";
+  added: number;
+  updated: number;
+  deleted: number;
+  historyId?: string;
+};
+
+export const getGmailCacheDir = () =>
+  configManager.getGeneralConfig().gmailCacheDir;
+
+const getStatePath = () => path.join(getGmailCacheDir(), "state.json");
+const getIndexPath = () => path.join(getGmailCacheDir(), "index.json");
+const getMessagesDir = () => path.join(getGmailCacheDir(), "messages");
+const getMessagePath = (id: string, dir = getMessagesDir()) =>
+  path.join(dir, `${id.replace(/[^\w-]/g, "_")}.json`);
+
+const readJsonFile = <T>(filePath: string, fallback: T): T => {
+  try {
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+    }
+  } catch (e) {
+    console.warn(`Could not read ${filePath}: ${e}`);
+  }
+  return fallback;
+};
+
+const writeJsonFile = (filePath: string, data: unknown) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data), "utf-8");
+};
+
+export const readCacheState = (): CacheState =>
+  readJsonFile<CacheState>(getStatePath(), {});
+
+export const writeCacheState = (state: CacheState) =>
+  writeJsonFile(getStatePath(), state);
+
+export const readCacheIndex = (): Record<string, CachedMessageSummary> =>
+  readJsonFile<Record<string, CachedMessageSummary>>(getIndexPath(), {});
+
+export const writeCacheIndex = (index: Record<string, CachedMessageSummary>) =>
+  writeJsonFile(getIndexPath(), index);
+
+const hasAttachmentParts = (part: MessagePart | undefined): boolean =>
+  !!part &&
+  (!!(part.filename && part.body?.attachmentId) ||
+    (part.parts || []).some(hasAttachmentParts));
+
+export const summarizeMessage = (message: Message): CachedMessageSummary => {
+  const headers = message.payload?.headers || [];
+  return {
+    id: message.id || "",
+    threadId: message.threadId || "",
+    labelIds: message.labelIds || [],
+    snippet: message.snippet || "",
+    internalDate: Number(message.internalDate || 0),
+    historyId: message.historyId || "",
+    sizeEstimate: message.sizeEstimate || 0,
+    from: findHeader(headers, "from") || "",
+    to: findHeader(headers, "to") || "",
+    subject: findHeader(headers, "subject") || "",
+    date: findHeader(headers, "date") || "",
+    hasAttachments: hasAttachmentParts(message.payload),
+  };
+};
+
+export const isMessageCached = (id: string) =>
+  fs.existsSync(getMessagePath(id));
+
+/**
+ * Returns a cached message in the same shape as `users.messages.get` with
+ * format=full, or undefined when it has not been synced.
+ */
+export const getCachedMessage = (id: string): Message | undefined =>
+  readJsonFile<Message | undefined>(getMessagePath(id), undefined);
+
+// Cache pages use their own cursor so Gmail page tokens are never mistaken
+// for an offset
+const CACHE_PAGE_TOKEN_PREFIX = "cache:";
+
+const parseCachePageToken = (pageToken?: string) => {
+  if (!pageToken) return 0;
+  const match = pageToken.match(/^cache:(\d+)$/);
+  if (!match)
+    throw new Error(
+      `Page token "${pageToken}" was not returned by a cached listing`
+    );
+  return Number(match[1]);
+};
+
+export const listCachedMessages = (
+  params: { labelIds?: string[]; maxResults?: number; pageToken?: string } = {}
+) => {
+  const { labelIds = [], maxResults = 100 } = params;
+  const offset = parseCachePageToken(params.pageToken);
+  const matching = Object.values(readCacheIndex())
+    .filter((message) =>
+      labelIds.every((label) => message.labelIds.includes(label))
+    )
+    .sort((a, b) => b.internalDate - a.internalDate);
+
+  return {
+    messages: matching.slice(offset, offset + maxResults),
+    total: matching.length,
+    nextPageToken:
+      offset + maxResults < matching.length
+        ? `${CACHE_PAGE_TOKEN_PREFIX}${offset + maxResults}`
+        : undefined,
+  };
+};
+
+const fetchMessages = async (gmail: gmail_v1.Gmail, ids: string[]) => {
+  const messages: Message[] = [];
+  for (const batch of chunkArray(ids, FETCH_CONCURRENCY)) {
+    const results = await Promise.all(
+      batch.map(async (id) => {
+        try {
+          const { data } = await gmail.users.messages.get({
+            userId: "me",
+            id,
+            format: "full",
+          });
+          return data;
+        } catch (error: any) {
+          // Messages deleted between listing and fetching are skipped
+          if (error.code === 404) return undefined;
+          throw error;
+        }
+      })
+    );
+    messages.push(...results.filter((m): m is Message => !!m));
+  }
+  return messages;
+};
+
+const storeMessages = (
+  messages: Message[],
+  index: Record<string, CachedMessageSummary>,
+  dir = getMessagesDir()
+) => {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const message of messages) {
+    if (!message.id) continue;
+    fs.writeFileSync(getMessagePath(message.id, dir), JSON.stringify(message));
+    index[message.id] = summarizeMessage(message);
+  }
+};
+
+const removeMessages = (
+  ids: string[],
+  index: Record<string, CachedMessageSummary>
+) => {
+  for (const id of ids) {
+    fs.rmSync(getMessagePath(id), { force: true });
+    delete index[id];
+  }
+};
+
+const fullSync = async (
+  gmail: gmail_v1.Gmail,
+  profile: gmail_v1.Schema$Profile,
+  options: { initialQuery?: string; maxMessages?: number }
+): Promise<SyncResult> => {
+  const ids = await listAllMessageIds(gmail, {
+    q: options.initialQuery ?? DEFAULT_INITIAL_QUERY,
+    maxMessages: options.maxMessages ?? DEFAULT_INITIAL_MAX_MESSAGES,
+  });
+  const messages = await fetchMessages(gmail, ids);
+
+  // The old cache stays until the new one is fetched and written, so a
+  // failed sync keeps it usable. The search index is rebuilt on next use.
+  const messagesDir = getMessagesDir();
+  const stagingDir = `${messagesDir}.new`;
+  fs.rmSync(stagingDir, { recursive: true, force: true });
+  const index: Record<string, CachedMessageSummary> = {};
+  storeMessages(messages, index, stagingDir);
+  fs.rmSync(messagesDir, { recursive: true, force: true });
+  fs.renameSync(stagingDir, messagesDir);
+  writeCacheIndex(index);
+
+  const now = new Date().toISOString();
+  writeCacheState({
+    emailAddress: profile.emailAddress || undefined,
+    historyId: profile.historyId || undefined,
+    lastFullSyncAt: now,
+    lastSyncAt: now,
+  });
+
+  return {
+    mode: "full",
+    added: Object.keys(index).length,
+    updated: 0,
+    deleted: 0,
+    historyId: profile.historyId || undefined,
+  };
+};
+
+const incrementalSync = async (
+  gmail: gmail_v1.Gmail,
+  state: CacheState
+): Promise<SyncResult> => {
+  const index = readCacheIndex();
+  const added = new Set<string>();
+  const labelChanged = new Set<string>();
+  const deleted = new Set<string>();
+  let historyId = state.historyId;
+  let pageToken: string | undefined;
+
+  do {
+    const { data } = await gmail.users.history.list({
+      userId: "me",
+      startHistoryId: state.historyId,
+      pageToken,
+      historyTypes: [
+        "messageAdded",
+        "messageDeleted",
+        "labelAdded",
+        "labelRemoved",
+      ],
+    });
+
+    for (const record of data.history || []) {
+      for (const { message } of record.messagesAdded || []) {
+        if (message?.id) added.add(message.id);
+      }
+      for (const { message } of [
+        ...(record.labelsAdded || []),
+        ...(record.labelsRemoved || []),
+      ]) {
+        if (message?.id) labelChanged.add(message.id);
+      }
+      for (const { message } of record.messagesDeleted || []) {
+        if (message?.id) deleted.add(message.id);
+      }
+    }
+
+    historyId = data.historyId || historyId;
+    pageToken = data.nextPageToken || undefined;
+  } while (pageToken);
+
+  // Label changes only matter for messages we already hold; unknown ones
+  // fell outside the initial sync window
+  const updated = [...labelChanged].filter(
+    (id) => index[id] && !added.has(id) && !deleted.has(id)
+  );
+  const toFetch = [...added].filter((id) => !deleted.has(id));
+
+  storeMessages(await fetchMessages(gmail, [...toFetch, ...updated]), index);
+  removeMessages([...deleted], index);
+  writeCacheIndex(index);
+  writeCacheState({
+    ...state,
+    historyId,
+    lastSyncAt: new Date().toISOString(),
+  });
+
+  return {
+    mode: "incremental",
+    added: toFetch.length,
+    updated: updated.length,
+    deleted: deleted.size,
+    historyId,
+  };
+};
+
+/**
+ * Brings the local cache up to date. The first run (or `reset`) stores the
+ * messages matching `initialQuery`; later runs replay `users.history.list`
+ * from the stored historyId and fall back to a full sync once Gmail no
+ * longer has that history, or when the credentials now belong to another
+ * account than the one cached.
+ */
+export const syncGmailCache = async (
+  gmail: gmail_v1.Gmail,
+  options: { initialQuery?: string; maxMessages?: number; reset?: boolean } = {}
+): Promise<SyncResult> => {
+  // Read the history ID before a full sync lists messages so changes made
+  // meanwhile are replayed by the next incremental sync
+  const { data: profile } = await gmail.users.getProfile({ userId: "me" });
+  const state = readCacheState();
+  if (
+    options.reset ||
+    !state.historyId ||
+    state.emailAddress !== (profile.emailAddress || undefined)
+  )
+    return fullSync(gmail, profile, options);
+
+  try {
+    return await incrementalSync(gmail, state);
+  } catch (error: any) {
+    if (error.code === 404) return fullSync(gmail, profile, options);
+    throw error;
+  }
+};
+
+export const getCacheStatus = () => {
+  const state = readCacheState();
+  const dates = Object.values(readCacheIndex()).map((m) => m.internalDate);
+
+  return {
+    cacheDir: getGmailCacheDir(),
+    synced: !!state.historyId,
+    ...state,
+    messageCount: dates.length,
+    oldestMessage: dates.length
+      ? new Date(dates.reduce((a, b) => Math.min(a, b))).toISOString()
+      : undefined,
+    newestMessage: dates.length
+      ? new Date(dates.reduce((a, b) => Math.max(a, b))).toISOString()
+      : undefined,
+  };
+};
@@ -0,0 +1,171 @@
+import { gmail_v1 } from "googleapis";
+import {
+  Message,
+  chunkArray,
+  constructRawMessage,
+  extractEmailAddress,
+  findHeader,
+  parseAddressList,
+} from "./gmail.js";
+
+// Number of threads fetched in parallel while scanning
+const FETCH_CONCURRENCY = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_NUDGE_BODY =
+  "Hi,\n\nJust following up on my message below. Let me know if you had a chance to look at it.\n\nThanks";
+
+export type AwaitingReply = {
+  threadId: string;
+  messageId: string;
+  subject: string;
+  to: string[];
+  cc: string[];
+  sentAt: string;
+  ageDays: number;
+  messageCount: number;
+  draftId?: string;
+};
+
+const getOwnAddresses = async (gmail: gmail_v1.Gmail) => {
+  const { data: profile } = await gmail.users.getProfile({ userId: "me" });
+  const { data: sendAs } = await gmail.users.settings.sendAs.list({
+    userId: "me",
+  });
+  return new Set(
+    [
+      profile.emailAddress || "",
+      ...(sendAs.sendAs || []).map((alias) => alias.sendAsEmail || ""),
+    ]
+      .filter((address) => address)
+      .map((address) => address.toLowerCase())
+  );
+};
+
+const listSentThreadIds = async (
+  gmail: gmail_v1.Gmail,
+  days: number,
+  maxThreads: number
+) => {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const { data } = await gmail.users.threads.list({
+      userId: "me",
+      q: `in:sent newer_than:${days}d`,
+      maxResults: Math.min(500, maxThreads),
+      pageToken,
+    });
+    ids.push(
+      ...(data.threads || [])
+        .map((thread) => thread.id)
+        .filter((id): id is string => !!id)
+    );
+    pageToken = data.nextPageToken || undefined;
+  } while (pageToken && ids.length < maxThreads);
+  return ids.slice(0, maxThreads);
+};
+
+/**
+ * Returns the thread as awaiting a reply when its latest sent message is
+ * ours and went to someone other than ourselves.
+ */
+const checkThread = (
+  thread: gmail_v1.Schema$Thread,
+  ownAddresses: Set<string>,
+  now: number
+): AwaitingReply | undefined => {
+  const messages = (thread.messages || [])
+    .filter((message) => !message.labelIds?.includes("DRAFT"))
+    .sort((a, b) => Number(a.internalDate) - Number(b.internalDate));
+  const last: Message | undefined = messages[messages.length - 1];
+  if (!last) return undefined;
+
+  const headers = last.payload?.headers || [];
+  const from = extractEmailAddress(findHeader(headers, "from") || "");
+  if (!ownAddresses.has(from)) return undefined;
+
+  const others = (header: string) =>
+    parseAddressList(findHeader(headers, header)).filter(
+      (address) => !ownAddresses.has(extractEmailAddress(address))
+    );
+  const to = others("to");
+  const cc = others("cc");
+  if (!to.length && !cc.length) return undefined;
+
+  const sentAt = Number(last.internalDate || 0);
+  return {
+    threadId: thread.id || "",
+    messageId: last.id || "",
+    subject: findHeader(headers, "subject") || "",
+    to,
+    cc,
+    sentAt: new Date(sentAt).toISOString(),
+    ageDays: Math.floor((now - sentAt) / DAY_MS),
+    messageCount: messages.length,
+  };
+};
+
+/**
+ * Scans threads we sent to in the last `days` days and returns those where
+ * nobody has replied since our latest message, oldest first.
+ */
+export const findAwaitingReply = async (
+  gmail: gmail_v1.Gmail,
+  options: { days?: number; minAgeDays?: number; maxThreads?: number } = {},
+  onProgress?: (scanned: number, total: number) => Promise<void> | void
+) => {
+  const { days = 14, minAgeDays = 2, maxThreads = 100 } = options;
+  const ownAddresses = await getOwnAddresses(gmail);
+  const threadIds = await listSentThreadIds(gmail, days, maxThreads);
+  const now = Date.now();
+
+  const awaiting: AwaitingReply[] = [];
+  let scanned = 0;
+  for (const batch of chunkArray(threadIds, FETCH_CONCURRENCY)) {
+    const threads = await Promise.all(
+      batch.map(async (id) => {
+        const { data } = await gmail.users.threads.get({
+          userId: "me",
+          id,
+          format: "metadata",
+          metadataHeaders: ["From", "To", "Cc", "Subject"],
+        });
+        return data;
+      })
+    );
+    for (const thread of threads) {
+      const result = checkThread(thread, ownAddresses, now);
+      if (result && result.ageDays >= minAgeDays) awaiting.push(result);
+    }
+    scanned += batch.length;
+    await onProgress?.(scanned, threadIds.length);
+  }
+
+  return {
+    scannedThreads: threadIds.length,
+    awaiting: awaiting.sort((a, b) => a.sentAt.localeCompare(b.sentAt)),
+  };
+};
+
+/**
+ * Saves a follow-up draft in the thread, addressed to the recipients of
+ * our unanswered message and quoting the conversation.
+ */
+export const createNudgeDraft = async (
+  gmail: gmail_v1.Gmail,
+  item: AwaitingReply,
+  body = DEFAULT_NUDGE_BODY
+) => {
+  const raw = await constructRawMessage(gmail, {
+    threadId: item.threadId,
+    to: item.to,
+    cc: item.cc,
+    body,
+  });
+  const { data } = await gmail.users.drafts.create({
+    userId: "me",
+    requestBody: { message: { raw, threadId: item.threadId } },
+  });
+  return data.id || undefined;
+};
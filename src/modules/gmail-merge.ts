@@ -0,0 +1,365 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { gmail_v1 } from "googleapis";
+import { configManager } from "../utils/configManager.js";
+import {
+  constructRawMessage,
+  escapeHtml,
+  extractEmailAddress,
+} from "./gmail.js";
+import { renderTemplate, TemplateValues } from "./text-template.js";
+
+const DEFAULT_THROTTLE_MS = 1000;
+
+// Recipients sent per run; larger merges continue as a scheduled job
+export const MERGE_BATCH_SIZE = 25;
+
+export type MergeTemplate = {
+  subject: string;
+  body: string;
+  htmlBody?: string;
+  cc?: string[];
+  bcc?: string[];
+  from?: string;
+  includeSignature?: boolean;
+};
+
+export type MergeRecipientStatus = "pending" | "sent" | "failed";
+
+export type MergeRecipient = {
+  row: number;
+  email: string;
+  values: TemplateValues;
+  status: MergeRecipientStatus;
+  messageId?: string;
+  error?: string;
+  sentAt?: string;
+};
+
+export type MergeJob = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  recipientsFile: string;
+  emailField: string;
+  throttleMs: number;
+  asDrafts: boolean;
+  template: MergeTemplate;
+  recipients: MergeRecipient[];
+};
+
+export type RenderedMergeMessage = {
+  to: string;
+  subject: string;
+  body: string;
+  htmlBody?: string;
+  missing: string[];
+};
+
+const getMergeDir = () => configManager.getGeneralConfig().gmailMergeDir;
+const getJobPath = (id: string) =>
+  path.join(getMergeDir(), `${id.replace(/[^\w-]/g, "_")}.json`);
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain commas, doubled quotes and
+ * line breaks. The first row holds the column names.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\ufeff/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...data] = rows.filter((r) => r.some((f) => f.trim()));
+  const columns = header.map((column) => column.trim());
+  return data.map((fields) =>
+    Object.fromEntries(
+      columns.map((column, i) => [column, (fields[i] ?? "").trim()])
+    )
+  );
+};
+
+export const loadRecipientRows = (filePath: string): TemplateValues[] => {
+  const content = fs.readFileSync(filePath, "utf-8");
+  if (path.extname(filePath).toLowerCase() !== ".json")
+    return parseCsv(content);
+
+  const data = JSON.parse(content);
+  const rows = Array.isArray(data) ? data : data.recipients;
+  if (!Array.isArray(rows))
+    throw new Error(
+      "JSON recipient files must hold an array of objects or { recipients: [...] }"
+    );
+  return rows;
+};
+
+/**
+ * Fills the templates for one recipient. Values are HTML-escaped in the
+ * HTML body and inserted as they are in the subject and plain text body.
+ */
+export const renderMergeMessage = (
+  template: MergeTemplate,
+  email: string,
+  values: TemplateValues
+): RenderedMergeMessage => {
+  const subject = renderTemplate(template.subject, values);
+  const body = renderTemplate(template.body, values);
+  const htmlBody = template.htmlBody
+    ? renderTemplate(template.htmlBody, values, escapeHtml)
+    : undefined;
+
+  return {
+    to: email,
+    subject: subject.text,
+    body: body.text,
+    htmlBody: htmlBody?.text,
+    missing: [
+      ...new Set([
+        ...subject.missing,
+        ...body.missing,
+        ...(htmlBody?.missing || []),
+      ]),
+    ],
+  };
+};
+
+/**
+ * Reads the recipient file into merge recipients and reports rows that
+ * cannot be sent: no or invalid address, or the same address twice.
+ */
+export const prepareRecipients = (filePath: string, emailField = "email") => {
+  const recipients: MergeRecipient[] = [];
+  const problems: { row: number; error: string }[] = [];
+  const seen = new Set<string>();
+
+  loadRecipientRows(filePath).forEach((values, index) => {
+    const row = index + 1;
+    const field = Object.keys(values).find(
+      (key) => key.toLowerCase() === emailField.toLowerCase()
+    );
+    const email = String((field && values[field]) || "").trim();
+
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(extractEmailAddress(email))) {
+      problems.push({ row, error: `Invalid email address "${email}"` });
+    } else if (seen.has(extractEmailAddress(email))) {
+      problems.push({ row, error: `Duplicate recipient ${email}` });
+    } else {
+      seen.add(extractEmailAddress(email));
+      recipients.push({ row, email, values, status: "pending" });
+    }
+  });
+
+  return { recipients, problems };
+};
+
+/**
+ * Renders the first `count` messages and checks every recipient for
+ * placeholders without a value, without sending anything.
+ */
+export const previewMailMerge = (
+  template: MergeTemplate,
+  filePath: string,
+  emailField = "email",
+  count = 3
+) => {
+  const { recipients, problems } = prepareRecipients(filePath, emailField);
+  const rendered = recipients.map((recipient) => ({
+    row: recipient.row,
+    ...renderMergeMessage(template, recipient.email, recipient.values),
+  }));
+
+  return {
+    recipients: recipients.length,
+    problems,
+    missingValues: rendered
+      .filter((message) => message.missing.length)
+      .map(({ row, to, missing }) => ({ row, to, missing })),
+    preview: rendered.slice(0, count),
+  };
+};
+
+export const readMergeJob = (id: string): MergeJob => {
+  if (!fs.existsSync(getJobPath(id)))
+    throw new Error(`No mail merge job with ID ${id}`);
+  return JSON.parse(fs.readFileSync(getJobPath(id), "utf-8"));
+};
+
+const writeMergeJob = (job: MergeJob) => {
+  job.updatedAt = new Date().toISOString();
+  fs.mkdirSync(getMergeDir(), { recursive: true });
+  fs.writeFileSync(getJobPath(job.id), JSON.stringify(job, null, 2), "utf-8");
+};
+
+export const createMergeJob = (
+  template: MergeTemplate,
+  recipientsFile: string,
+  options: { emailField?: string; throttleMs?: number; asDrafts?: boolean }
+) => {
+  const emailField = options.emailField || "email";
+  const { recipients, problems } = prepareRecipients(
+    recipientsFile,
+    emailField
+  );
+  const now = new Date().toISOString();
+  const job: MergeJob = {
+    id: `merge-${now.slice(0, 10)}-${crypto.randomUUID().slice(0, 8)}`,
+    createdAt: now,
+    updatedAt: now,
+    recipientsFile: path.resolve(recipientsFile),
+    emailField,
+    throttleMs: options.throttleMs ?? DEFAULT_THROTTLE_MS,
+    asDrafts: !!options.asDrafts,
+    template,
+    recipients,
+  };
+  writeMergeJob(job);
+  return { job, problems };
+};
+
+export const summarizeMergeJob = (job: MergeJob) => {
+  const count = (status: MergeRecipientStatus) =>
+    job.recipients.filter((recipient) => recipient.status === status).length;
+  return {
+    jobId: job.id,
+    jobFile: getJobPath(job.id),
+    asDrafts: job.asDrafts,
+    total: job.recipients.length,
+    sent: count("sent"),
+    failed: count("failed"),
+    pending: count("pending"),
+    failures: job.recipients
+      .filter((recipient) => recipient.status === "failed")
+      .map(({ row, email, error }) => ({ row, email, error })),
+  };
+};
+
+const deliverMessage = async (
+  gmail: gmail_v1.Gmail,
+  raw: string,
+  asDraft: boolean
+) => {
+  if (asDraft) {
+    const { data } = await gmail.users.drafts.create({
+      userId: "me",
+      requestBody: { message: { raw } },
+    });
+    return data;
+  }
+  const { data } = await gmail.users.messages.send({
+    userId: "me",
+    requestBody: { raw },
+  });
+  return data;
+};
+
+const isRateLimitError = (error: any) =>
+  error.code === 429 ||
+  /rate ?limit|quota|sending limit/i.test(error.message || "");
+
+/**
+ * Sends the job's pending recipients one at a time, waiting `throttleMs`
+ * between messages and saving the job file after each one so an
+ * interrupted run can be resumed. Messages with missing placeholder values
+ * fail unless `allowMissing` is set. Stops early on Gmail rate limits,
+ * leaving the remaining recipients pending.
+ */
+export const runMergeJob = async (
+  gmail: gmail_v1.Gmail,
+  job: MergeJob,
+  options: {
+    maxSends?: number;
+    retryFailed?: boolean;
+    allowMissing?: boolean;
+    onProgress?: (done: number, total: number) => Promise<void> | void;
+  } = {}
+) => {
+  if (options.retryFailed) {
+    for (const recipient of job.recipients) {
+      if (recipient.status === "failed") {
+        recipient.status = "pending";
+        recipient.error = undefined;
+      }
+    }
+  }
+
+  const queue = job.recipients
+    .filter((recipient) => recipient.status === "pending")
+    .slice(0, options.maxSends);
+  let stoppedReason: string | undefined;
+
+  for (const [index, recipient] of queue.entries()) {
+    if (index > 0 && job.throttleMs > 0)
+      await new Promise((resolve) => setTimeout(resolve, job.throttleMs));
+
+    const message = renderMergeMessage(
+      job.template,
+      recipient.email,
+      recipient.values
+    );
+    try {
+      if (message.missing.length && !options.allowMissing)
+        throw new Error(`Missing values for ${message.missing.join(", ")}`);
+
+      const raw = await constructRawMessage(gmail, {
+        to: [recipient.email],
+        cc: job.template.cc,
+        bcc: job.template.bcc,
+        subject: message.subject,
+        body: message.body,
+        htmlBody: message.htmlBody,
+        from: job.template.from,
+        includeSignature: job.template.includeSignature,
+      });
+      const sent = await deliverMessage(gmail, raw, job.asDrafts);
+      recipient.status = "sent";
+      recipient.messageId = sent.id || undefined;
+      recipient.sentAt = new Date().toISOString();
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+        stoppedReason = `Stopped on Gmail rate limit: ${error.message}`;
+        break;
+      }
+      recipient.status = "failed";
+      recipient.error = error.message;
+    } finally {
+      writeMergeJob(job);
+    }
+    await options.onProgress?.(index + 1, queue.length);
+  }
+
+  writeMergeJob(job);
+  return { ...summarizeMergeJob(job), stoppedReason };
+};
@@ -0,0 +1,415 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+import { gmail_v1 } from "googleapis";
+import { configManager } from "../utils/configManager.js";
+import { logger } from "../utils/logger.js";
+import { ensureLabels, handleTool, sendDraft } from "./gmail.js";
+import { MERGE_BATCH_SIZE, readMergeJob, runMergeJob } from "./gmail-merge.js";
+
+// How often due jobs are checked while the server is running
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// A merge stopped by Gmail's sending limit tries again after this long
+const MERGE_RATE_LIMIT_DELAY_MS = 60 * 60 * 1000;
+
+// A claimed job is renewed while it runs; an expired lease means its
+// process stopped mid-run
+const LEASE_MS = 5 * 60 * 1000;
+
+// The job list lock is held for milliseconds, an older one is left by a crash
+const LOCK_STALE_MS = 30 * 1000;
+const LOCK_TIMEOUT_MS = 5 * 1000;
+const LOCK_RETRY_MS = 20;
+
+// Identifies this process as the owner of the jobs it claims
+const OWNER_ID = `${os.hostname()}:${process.pid}:${crypto
+  .randomUUID()
+  .slice(0, 8)}`;
+
+export const SNOOZED_LABEL_NAME = "Snoozed";
+
+export type ScheduledJobType = "send_draft" | "unsnooze" | "mail_merge";
+
+export type ScheduledJobStatus =
+  | "pending"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export type ScheduledJob = {
+  id: string;
+  type: ScheduledJobType;
+  runAt: string;
+  status: ScheduledJobStatus;
+  createdAt: string;
+  draftId?: string;
+  threadId?: string;
+  subject?: string;
+  to?: string;
+  markUnread?: boolean;
+  mergeJobId?: string;
+  allowMissing?: boolean;
+  owner?: string;
+  leaseUntil?: string;
+  completedAt?: string;
+  messageId?: string;
+  error?: string;
+};
+
+const getSchedulerPath = () =>
+  configManager.getGeneralConfig().gmailSchedulerPath;
+
+export const readScheduledJobs = (): ScheduledJob[] => {
+  try {
+    if (fs.existsSync(getSchedulerPath())) {
+      return JSON.parse(fs.readFileSync(getSchedulerPath(), "utf-8"));
+    }
+  } catch (e) {
+    logger.warn(`Could not read scheduled jobs: ${e}`);
+  }
+  return [];
+};
+
+// Written to a temporary file and renamed, so readers never see half a list
+const writeScheduledJobs = (jobs: ScheduledJob[]) => {
+  const tempPath = `${getSchedulerPath()}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(jobs, null, 2), "utf-8");
+  fs.renameSync(tempPath, getSchedulerPath());
+};
+
+/**
+ * Reads, changes and writes the job list while holding a lock file, so
+ * several server processes sharing the config directory never overwrite
+ * each other's changes. Waiting for the lock never blocks the event loop.
+ */
+const withScheduledJobs = async <T>(
+  change: (jobs: ScheduledJob[]) => T
+): Promise<T> => {
+  const lockPath = `${getSchedulerPath()}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, "wx"));
+      break;
+    } catch (error: any) {
+      if (error.code !== "EEXIST") throw error;
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS)
+          fs.rmSync(lockPath, { force: true });
+      } catch {
+        // Released in the meantime
+      }
+      if (Date.now() > deadline)
+        throw new Error(`Scheduled jobs are locked by ${lockPath}`);
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    const jobs = readScheduledJobs();
+    const result = change(jobs);
+    writeScheduledJobs(jobs);
+    return result;
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+};
+
+const updateJob = (id: string, changes: Partial<ScheduledJob>) =>
+  withScheduledJobs((jobs) => {
+    const job = jobs.find((j) => j.id === id);
+    return job && Object.assign(job, changes);
+  });
+
+// Results of a run are dropped when the lease was lost to another process
+const updateClaimedJob = (id: string, changes: Partial<ScheduledJob>) =>
+  withScheduledJobs((jobs) => {
+    const job = jobs.find((j) => j.id === id && j.owner === OWNER_ID);
+    return job && Object.assign(job, changes);
+  });
+
+export const parseScheduleTime = (value: string) => {
+  const time = new Date(value);
+  if (isNaN(time.getTime()))
+    throw new Error(
+      `Invalid time "${value}", use an ISO 8601 date such as 2024-05-01T09:00:00+02:00`
+    );
+  return time;
+};
+
+const addJob = async (
+  job: Omit<ScheduledJob, "id" | "status" | "createdAt">
+): Promise<ScheduledJob> => {
+  const created: ScheduledJob = {
+    id: crypto.randomUUID(),
+    status: "pending",
+    createdAt: new Date().toISOString(),
+    ...job,
+  };
+  await withScheduledJobs((jobs) => jobs.push(created));
+  return created;
+};
+
+/**
+ * Queues an existing draft to be sent at `sendAt`. The draft stays visible
+ * in Gmail's Drafts folder until then.
+ */
+export const scheduleDraft = async (
+  gmail: gmail_v1.Gmail,
+  draftId: string,
+  sendAt: string
+) => {
+  const runAt = parseScheduleTime(sendAt);
+  const { data: draft } = await gmail.users.drafts.get({
+    userId: "me",
+    id: draftId,
+    format: "metadata",
+  });
+  const headers = draft.message?.payload?.headers || [];
+  const header = (name: string) =>
+    headers.find((h) => h.name?.toLowerCase() === name)?.value || undefined;
+
+  return addJob({
+    type: "send_draft",
+    runAt: runAt.toISOString(),
+    draftId,
+    threadId: draft.message?.threadId || undefined,
+    subject: header("subject"),
+    to: header("to"),
+  });
+};
+
+/**
+ * Archives a thread under the Snoozed label and queues its return to the
+ * inbox at `until`.
+ */
+export const snoozeThread = async (
+  gmail: gmail_v1.Gmail,
+  threadId: string,
+  until: string,
+  markUnread = true
+) => {
+  const runAt = parseScheduleTime(until);
+  const labels = await ensureLabels(gmail, [SNOOZED_LABEL_NAME]);
+  const { data: thread } = await gmail.users.threads.modify({
+    userId: "me",
+    id: threadId,
+    requestBody: {
+      addLabelIds: [labels[SNOOZED_LABEL_NAME]],
+      removeLabelIds: ["INBOX"],
+    },
+  });
+  const subject = thread.messages?.[0]?.payload?.headers?.find(
+    (h) => h.name?.toLowerCase() === "subject"
+  )?.value;
+
+  return addJob({
+    type: "unsnooze",
+    runAt: runAt.toISOString(),
+    threadId,
+    subject: subject || undefined,
+    markUnread,
+  });
+};
+
+/**
+ * Queues the pending recipients of a mail merge job to be sent in the
+ * background, one batch per run. A merge already queued is not queued twice.
+ */
+export const scheduleMailMerge = (mergeJobId: string, allowMissing = false) =>
+  withScheduledJobs((jobs) => {
+    const queued = jobs.find(
+      (job) =>
+        job.mergeJobId === mergeJobId &&
+        (job.status === "pending" || job.status === "running")
+    );
+    if (queued) return queued;
+
+    const created: ScheduledJob = {
+      id: crypto.randomUUID(),
+      type: "mail_merge",
+      runAt: new Date().toISOString(),
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      mergeJobId,
+      allowMissing,
+    };
+    jobs.push(created);
+    return created;
+  });
+
+const unsnoozeThread = async (
+  gmail: gmail_v1.Gmail,
+  threadId: string,
+  markUnread = true
+) => {
+  const labels = await ensureLabels(gmail, [SNOOZED_LABEL_NAME]);
+  await gmail.users.threads.modify({
+    userId: "me",
+    id: threadId,
+    requestBody: {
+      addLabelIds: markUnread ? ["INBOX", "UNREAD"] : ["INBOX"],
+      removeLabelIds: [labels[SNOOZED_LABEL_NAME]],
+    },
+  });
+};
+
+/**
+ * Cancels a pending job. Cancelling a snooze returns the thread to the
+ * inbox right away.
+ */
+export const cancelScheduledJob = async (gmail: gmail_v1.Gmail, id: string) => {
+  // Cancelled first, so the scheduler can no longer claim it
+  const job = await withScheduledJobs((jobs) => {
+    const found = jobs.find((j) => j.id === id);
+    if (!found) throw new Error(`No scheduled job with ID ${id}`);
+    if (found.status !== "pending")
+      throw new Error(`Job ${id} is already ${found.status}`);
+    return Object.assign(found, {
+      status: "cancelled" as const,
+      completedAt: new Date().toISOString(),
+    });
+  });
+
+  if (job.type === "unsnooze" && job.threadId) {
+    try {
+      await unsnoozeThread(gmail, job.threadId, false);
+    } catch (error) {
+      await updateJob(id, { status: "pending", completedAt: undefined });
+      throw error;
+    }
+  }
+  return job;
+};
+
+const leaseEnd = () => new Date(Date.now() + LEASE_MS).toISOString();
+
+const runJob = async (gmail: gmail_v1.Gmail, job: ScheduledJob) => {
+  const heartbeat = setInterval(() => {
+    updateClaimedJob(job.id, { leaseUntil: leaseEnd() }).catch((error) =>
+      logger.warn(`Lease of scheduled job ${job.id} not renewed: ${error}`)
+    );
+  }, LEASE_MS / 3);
+  heartbeat.unref();
+  try {
+    if (job.type === "send_draft" && job.draftId) {
+      const message = await sendDraft(gmail, job.draftId);
+      await updateClaimedJob(job.id, {
+        status: "done",
+        completedAt: new Date().toISOString(),
+        messageId: message.id || undefined,
+      });
+    } else if (job.type === "mail_merge" && job.mergeJobId) {
+      const result = await runMergeJob(gmail, readMergeJob(job.mergeJobId), {
+        maxSends: MERGE_BATCH_SIZE,
+        allowMissing: job.allowMissing,
+      });
+      // Requeued until every recipient is sent or failed
+      const delay = result.stoppedReason ? MERGE_RATE_LIMIT_DELAY_MS : 0;
+      await updateClaimedJob(
+        job.id,
+        result.pending
+          ? {
+              status: "pending",
+              runAt: new Date(Date.now() + delay).toISOString(),
+              error: result.stoppedReason,
+            }
+          : { status: "done", completedAt: new Date().toISOString() }
+      );
+    } else if (job.type === "unsnooze" && job.threadId) {
+      await unsnoozeThread(gmail, job.threadId, job.markUnread);
+      await updateClaimedJob(job.id, {
+        status: "done",
+        completedAt: new Date().toISOString(),
+      });
+    }
+  } catch (error: any) {
+    await updateClaimedJob(job.id, {
+      status: "failed",
+      completedAt: new Date().toISOString(),
+      error: error.message,
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * Takes the due jobs for this process in one locked update, so no job is
+ * run by two processes. A running job whose lease expired was interrupted:
+ * a draft send is marked failed rather than retried, because the draft may
+ * already be sent, while snoozes and merge batches are safe to run again.
+ */
+export const claimDueJobs = (now: Date) =>
+  withScheduledJobs((jobs) => {
+    for (const job of jobs) {
+      if (job.status !== "running") continue;
+      if (job.leaseUntil && new Date(job.leaseUntil) > now) continue;
+      if (job.type === "send_draft") {
+        Object.assign(job, {
+          status: "failed",
+          completedAt: now.toISOString(),
+          error: "Interrupted while running, check Gmail before rescheduling",
+        });
+      } else {
+        job.status = "pending";
+      }
+    }
+
+    const due = jobs.filter(
+      (job) => job.status === "pending" && new Date(job.runAt) <= now
+    );
+    for (const job of due)
+      Object.assign(job, {
+        status: "running",
+        owner: OWNER_ID,
+        leaseUntil: leaseEnd(),
+      });
+    return due.map((job) => ({ ...job }));
+  });
+
+/**
+ * Claims and runs every pending job whose time has come. Other processes
+ * using the same config directory skip the jobs claimed here.
+ */
+export const runDueJobs = async (gmail: gmail_v1.Gmail, now = new Date()) => {
+  const due = await claimDueJobs(now);
+  for (const job of due) await runJob(gmail, job);
+  return due.length;
+};
+
+let schedulerTimer: NodeJS.Timeout | undefined;
+let schedulerRunning = false;
+
+/**
+ * Starts checking for due jobs in the background, including any that came
+ * due while the server was not running. Only one scheduler runs per process.
+ */
+export const startGmailScheduler = (config?: Record<string, any>) => {
+  if (schedulerTimer) return;
+
+  const tick = async () => {
+    if (schedulerRunning) return;
+    const pending = readScheduledJobs().some(
+      (job) => job.status === "pending" || job.status === "running"
+    );
+    if (!pending) return;
+
+    schedulerRunning = true;
+    try {
+      const result = await handleTool(config, (gmail) => runDueJobs(gmail));
+      if (typeof result !== "number")
+        logger.warn(`Scheduled Gmail jobs not run: ${JSON.stringify(result)}`);
+    } finally {
+      schedulerRunning = false;
+    }
+  };
+
+  schedulerTimer = setInterval(tick, CHECK_INTERVAL_MS);
+  schedulerTimer.unref();
+  setTimeout(tick, 0).unref();
+};
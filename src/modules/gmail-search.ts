@@ -0,0 +1,376 @@
+import fs from "fs";
+import path from "path";
+import {
+  CachedMessageSummary,
+  getCachedMessage,
+  getGmailCacheDir,
+  readCacheIndex,
+  readCacheState,
+} from "./gmail-cache.js";
+import { getDecodedBodyText, processMessagePart } from "./gmail.js";
+import { cleanMessageText } from "./email-text.js";
+
+// BM25 tuning parameters
+const K1 = 1.2;
+const B = 0.75;
+// Subject terms count this many times towards a document's term frequency
+const SUBJECT_WEIGHT = 3;
+// Score multiplier for terms matched by prefix or edit distance
+const FUZZY_WEIGHT = 0.5;
+const SNIPPET_LENGTH = 200;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have i if in into is it its " +
+    "me my no not of on or our so that the their then there these this to " +
+    "was we were will with you your"
+  ).split(" ")
+);
+
+type IndexedDocument = {
+  length: number;
+  threadId: string;
+  from: string;
+  subject: string;
+  internalDate: number;
+  labelIds: string[];
+  hasAttachments: boolean;
+};
+
+type SearchIndex = {
+  historyId?: string;
+  builtAt: string;
+  averageLength: number;
+  documents: Record<string, IndexedDocument>;
+  postings: Record<string, Record<string, number>>;
+};
+
+export type LocalSearchFilters = {
+  from?: string;
+  after?: string;
+  before?: string;
+  label?: string;
+  hasAttachment?: boolean;
+};
+
+export type LocalSearchResult = {
+  id: string;
+  threadId: string;
+  score: number;
+  from: string;
+  subject: string;
+  date: string;
+  labelIds: string[];
+  snippet: string;
+};
+
+const getSearchIndexPath = () =>
+  path.join(getGmailCacheDir(), "search-index.json");
+
+export const tokenize = (text: string) =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+const getMessageText = (id: string) => {
+  const message = getCachedMessage(id);
+  if (!message?.payload) return "";
+  return cleanMessageText(
+    getDecodedBodyText(processMessagePart(message.payload, true))
+  );
+};
+
+const buildDocument = (summary: CachedMessageSummary) => {
+  const terms: Record<string, number> = {};
+  const add = (text: string, weight: number) => {
+    for (const token of tokenize(text)) {
+      terms[token] = (terms[token] || 0) + weight;
+    }
+  };
+
+  add(summary.subject, SUBJECT_WEIGHT);
+  add(summary.from, 1);
+  add(getMessageText(summary.id), 1);
+
+  return terms;
+};
+
+/**
+ * Builds the inverted index from every message in the local cache and
+ * stores it next to the cache, tagged with the cache's historyId.
+ */
+export const buildSearchIndex = (): SearchIndex => {
+  const index: SearchIndex = {
+    historyId: readCacheState().historyId,
+    builtAt: new Date().toISOString(),
+    averageLength: 0,
+    documents: {},
+    postings: {},
+  };
+
+  let totalLength = 0;
+  for (const summary of Object.values(readCacheIndex())) {
+    const terms = buildDocument(summary);
+    const length = Object.values(terms).reduce((sum, tf) => sum + tf, 0);
+    totalLength += length;
+
+    index.documents[summary.id] = {
+      length,
+      threadId: summary.threadId,
+      from: summary.from,
+      subject: summary.subject,
+      internalDate: summary.internalDate,
+      labelIds: summary.labelIds,
+      hasAttachments: summary.hasAttachments,
+    };
+    for (const [term, tf] of Object.entries(terms)) {
+      (index.postings[term] ||= {})[summary.id] = tf;
+    }
+  }
+
+  const count = Object.keys(index.documents).length;
+  index.averageLength = count ? totalLength / count : 0;
+
+  fs.mkdirSync(getGmailCacheDir(), { recursive: true });
+  fs.writeFileSync(getSearchIndexPath(), JSON.stringify(index));
+  return index;
+};
+
+/**
+ * Loads the stored index, rebuilding it when the cache has been synced
+ * since it was built or when `rebuild` is set.
+ */
+export const loadSearchIndex = (rebuild = false): SearchIndex => {
+  if (!rebuild && fs.existsSync(getSearchIndexPath())) {
+    try {
+      const index = JSON.parse(
+        fs.readFileSync(getSearchIndexPath(), "utf-8")
+      ) as SearchIndex;
+      if (index.historyId === readCacheState().historyId) return index;
+    } catch (e) {
+      console.warn(`Could not read search index, rebuilding: ${e}`);
+    }
+  }
+  return buildSearchIndex();
+};
+
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+type Vocabulary = { sorted: string[]; byLength: Map<number, string[]> };
+
+// Sorted for prefix lookups and grouped by length, so a term is only
+// compared by edit distance with terms that could be close enough
+const buildVocabulary = (terms: string[]): Vocabulary => {
+  const byLength = new Map<number, string[]>();
+  for (const term of terms) {
+    if (!byLength.has(term.length)) byLength.set(term.length, []);
+    byLength.get(term.length)!.push(term);
+  }
+  return { sorted: [...terms].sort(), byLength };
+};
+
+/**
+ * Expands a query term to the indexed terms it should match: itself at full
+ * weight, plus prefix and typo-tolerant matches at a reduced weight.
+ */
+const expandTerm = (term: string, vocabulary: Vocabulary) => {
+  const matches = new Map<string, number>([[term, 1]]);
+  const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+  if (term.length >= 3) {
+    // Terms starting with `term` sort right after it
+    const { sorted } = vocabulary;
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sorted[middle] < term) low = middle + 1;
+      else high = middle;
+    }
+    for (let i = low; i < sorted.length && sorted[i].startsWith(term); i++) {
+      if (sorted[i] !== term) matches.set(sorted[i], FUZZY_WEIGHT);
+    }
+  }
+
+  for (
+    let length = term.length - maxDistance;
+    maxDistance && length <= term.length + maxDistance;
+    length++
+  ) {
+    for (const candidate of vocabulary.byLength.get(length) || []) {
+      if (
+        candidate !== term &&
+        editDistance(term, candidate, maxDistance) <= maxDistance
+      )
+        matches.set(candidate, FUZZY_WEIGHT);
+    }
+  }
+  return matches;
+};
+
+const parseFilterDate = (value: string, name: string) => {
+  const time = new Date(value).getTime();
+  if (isNaN(time)) throw new Error(`Invalid ${name} date: ${value}`);
+  return time;
+};
+
+const matchesFilters = (
+  document: IndexedDocument,
+  filters: LocalSearchFilters
+) => {
+  if (
+    filters.from &&
+    !document.from.toLowerCase().includes(filters.from.toLowerCase())
+  )
+    return false;
+  if (filters.label && !document.labelIds.includes(filters.label)) return false;
+  if (
+    filters.hasAttachment !== undefined &&
+    document.hasAttachments !== filters.hasAttachment
+  )
+    return false;
+  if (
+    filters.after &&
+    document.internalDate < parseFilterDate(filters.after, "after")
+  )
+    return false;
+  if (
+    filters.before &&
+    document.internalDate >= parseFilterDate(filters.before, "before")
+  )
+    return false;
+  return true;
+};
+
+/**
+ * Cuts a window of text around the first matched term and wraps every
+ * matched word in **bold** markers.
+ */
+export const highlightSnippet = (text: string, terms: string[]) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (!terms.length) return flat.slice(0, SNIPPET_LENGTH);
+
+  const isMatch = (word: string) => {
+    const [token] = tokenize(word);
+    return !!token && terms.includes(token);
+  };
+
+  const words = flat.split(" ");
+  const first = Math.max(0, words.findIndex(isMatch));
+  let start = first;
+  let length = 0;
+  while (start > 0 && length < SNIPPET_LENGTH / 3) {
+    start--;
+    length += words[start].length + 1;
+  }
+
+  const snippet: string[] = [];
+  length = 0;
+  for (let i = start; i < words.length && length < SNIPPET_LENGTH; i++) {
+    snippet.push(isMatch(words[i]) ? `**${words[i]}**` : words[i]);
+    length += words[i].length + 1;
+  }
+
+  return (
+    (start > 0 ? "… " : "") +
+    snippet.join(" ") +
+    (start + snippet.length < words.length ? " …" : "")
+  );
+};
+
+/**
+ * Ranks cached messages against a free-text query with BM25, tolerating
+ * typos and partial words, and applies the metadata filters.
+ */
+export const searchLocalMessages = (
+  query: string,
+  filters: LocalSearchFilters = {},
+  options: { maxResults?: number; rebuild?: boolean } = {}
+) => {
+  const index = loadSearchIndex(options.rebuild);
+  const documentCount = Object.keys(index.documents).length;
+  const vocabulary = buildVocabulary(Object.keys(index.postings));
+  const scores = new Map<string, number>();
+  const matchedTerms = new Map<string, Set<string>>();
+
+  for (const term of new Set(tokenize(query))) {
+    for (const [candidate, weight] of expandTerm(term, vocabulary)) {
+      const postings = index.postings[candidate];
+      if (!postings) continue;
+
+      const df = Object.keys(postings).length;
+      const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+
+      for (const [id, tf] of Object.entries(postings)) {
+        const document = index.documents[id];
+        if (!document || !matchesFilters(document, filters)) continue;
+
+        const norm =
+          tf +
+          K1 * (1 - B + (B * document.length) / (index.averageLength || 1));
+        scores.set(
+          id,
+          (scores.get(id) || 0) + weight * idf * ((tf * (K1 + 1)) / norm)
+        );
+        if (!matchedTerms.has(id)) matchedTerms.set(id, new Set());
+        matchedTerms.get(id)!.add(candidate);
+      }
+    }
+  }
+
+  // An empty query lists the filtered messages newest first
+  if (!tokenize(query).length) {
+    for (const [id, document] of Object.entries(index.documents)) {
+      if (matchesFilters(document, filters))
+        scores.set(id, document.internalDate / 1e13);
+    }
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  const results: LocalSearchResult[] = ranked
+    .slice(0, options.maxResults ?? 20)
+    .map(([id, score]) => {
+      const document = index.documents[id];
+      return {
+        id,
+        threadId: document.threadId,
+        score: Math.round(score * 1000) / 1000,
+        from: document.from,
+        subject: document.subject,
+        date: new Date(document.internalDate).toISOString(),
+        labelIds: document.labelIds,
+        snippet: highlightSnippet(getMessageText(id), [
+          ...(matchedTerms.get(id) || []),
+        ]),
+      };
+    });
+
+  return {
+    results,
+    total: ranked.length,
+    indexedMessages: documentCount,
+    indexBuiltAt: index.builtAt,
+  };
+};
@@ -0,0 +1,337 @@
+import axios from "axios";
+import dns from "dns";
+import https from "https";
+import net from "net";
+import { gmail_v1 } from "googleapis";
+import {
+  BULK_ACTION_LABELS,
+  GMAIL_BATCH_LIMIT,
+  LIST_HEADERS_LIST,
+  Message,
+  buildRawMessage,
+  chunkArray,
+  extractEmailAddress,
+  findHeader,
+  listAllMessageIds,
+} from "./gmail.js";
+
+// Number of message metadata requests made in parallel while scanning
+const FETCH_CONCURRENCY = 10;
+const DEFAULT_SCAN_QUERY = "newer_than:180d -in:chats";
+const DEFAULT_SCAN_MAX_MESSAGES = 500;
+
+// Loopback, private, link-local, shared and reserved networks
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const)
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const)
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+
+export type UnsubscribeTargets = {
+  http?: string;
+  mailto?: string;
+  oneClick: boolean;
+};
+
+export type Subscription = {
+  sender: string;
+  email: string;
+  listId?: string;
+  count: number;
+  unread: number;
+  lastSentAt: string;
+  latestMessageId: string;
+  unsubscribe: UnsubscribeTargets;
+};
+
+export type UnsubscribeResult = {
+  email: string;
+  method: "one-click" | "mailto" | "manual" | "none";
+  success: boolean;
+  detail: string;
+  url?: string;
+  archived?: number;
+  filterId?: string;
+};
+
+/**
+ * Reads the List-Unsubscribe and List-Unsubscribe-Post headers. One-click
+ * (RFC 8058) is only possible with an https target and the
+ * "List-Unsubscribe=One-Click" post header.
+ */
+export const parseListUnsubscribe = (
+  header: string | undefined,
+  postHeader?: string
+): UnsubscribeTargets => {
+  const targets = [...(header || "").matchAll(/<([^>]+)>/g)].map((m) =>
+    m[1].trim()
+  );
+  const http = targets.find((target) => /^https?:/i.test(target));
+  const mailto = targets.find((target) => /^mailto:/i.test(target));
+
+  return {
+    http,
+    mailto,
+    oneClick:
+      !!http?.toLowerCase().startsWith("https:") &&
+      /List-Unsubscribe=One-Click/i.test(postHeader || ""),
+  };
+};
+
+export const isPrivateAddress = (address: string) =>
+  PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+
+/**
+ * Resolves like dns.lookup but fails for hosts with a private address, so
+ * an unsubscribe URL from an email cannot reach the local network. Checked
+ * at connect time, the address cannot change between check and request.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) =>
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked)
+      return callback(
+        new Error(
+          `${hostname} resolves to the private address ${blocked.address}`
+        ),
+        ""
+      );
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+
+const publicAgent = new https.Agent({ lookup: publicLookup });
+
+/**
+ * Sends the RFC 8058 one-click POST. Targets on private, loopback or
+ * link-local addresses are refused.
+ */
+const postOneClickUnsubscribe = async (target: string) => {
+  const host = new URL(target).hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isPrivateAddress(host))
+    throw new Error(
+      `Refusing one-click unsubscribe to the private address ${host}`
+    );
+
+  try {
+    return await axios.post(target, "List-Unsubscribe=One-Click", {
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      httpsAgent: publicAgent,
+      maxRedirects: 0,
+      timeout: 15000,
+      validateStatus: () => true,
+    });
+  } catch (error: any) {
+    throw new Error(`One-click unsubscribe failed: ${error.message}`);
+  }
+};
+
+// Messages deleted since they were listed are skipped
+const fetchListMetadata = async (gmail: gmail_v1.Gmail, ids: string[]) => {
+  const messages: Message[] = [];
+  for (const batch of chunkArray(ids, FETCH_CONCURRENCY)) {
+    const fetched = await Promise.all(
+      batch.map(async (id) => {
+        try {
+          const { data } = await gmail.users.messages.get({
+            userId: "me",
+            id,
+            format: "metadata",
+            metadataHeaders: ["From", ...LIST_HEADERS_LIST],
+          });
+          return data;
+        } catch (error: any) {
+          if (error.code !== 404) throw error;
+          return undefined;
+        }
+      })
+    );
+    messages.push(
+      ...fetched.filter((message): message is Message => !!message)
+    );
+  }
+  return messages;
+};
+
+/**
+ * Groups the senders of recent mail carrying a List-Unsubscribe header,
+ * most prolific first.
+ */
+export const listSubscriptions = async (
+  gmail: gmail_v1.Gmail,
+  options: { q?: string; maxMessages?: number } = {},
+  onProgress?: (scanned: number, total: number) => Promise<void> | void
+) => {
+  const ids = await listAllMessageIds(gmail, {
+    q: options.q ?? DEFAULT_SCAN_QUERY,
+    maxMessages: options.maxMessages ?? DEFAULT_SCAN_MAX_MESSAGES,
+  });
+
+  const subscriptions = new Map<string, Subscription & { lastTime: number }>();
+  let scanned = 0;
+  for (const batch of chunkArray(ids, FETCH_CONCURRENCY * 5)) {
+    for (const message of await fetchListMetadata(gmail, batch)) {
+      const headers = message.payload?.headers || [];
+      const unsubscribeHeader = findHeader(headers, "List-Unsubscribe");
+      if (!unsubscribeHeader) continue;
+
+      const sender = findHeader(headers, "From") || "";
+      const email = extractEmailAddress(sender);
+      const time = Number(message.internalDate || 0);
+      const existing = subscriptions.get(email);
+      const unread = message.labelIds?.includes("UNREAD") ? 1 : 0;
+
+      if (existing) {
+        existing.count++;
+        existing.unread += unread;
+        if (time <= existing.lastTime) continue;
+      }
+
+      subscriptions.set(email, {
+        sender,
+        email,
+        listId: findHeader(headers, "List-Id"),
+        count: existing?.count ?? 1,
+        unread: existing?.unread ?? unread,
+        lastTime: time,
+        lastSentAt: new Date(time).toISOString(),
+        latestMessageId: message.id || "",
+        unsubscribe: parseListUnsubscribe(
+          unsubscribeHeader,
+          findHeader(headers, "List-Unsubscribe-Post")
+        ),
+      });
+    }
+    scanned += batch.length;
+    await onProgress?.(scanned, ids.length);
+  }
+
+  return {
+    scannedMessages: ids.length,
+    subscriptions: [...subscriptions.values()]
+      .sort((a, b) => b.count - a.count || b.lastTime - a.lastTime)
+      .map(({ lastTime, ...subscription }) => subscription),
+  };
+};
+
+const sendMailtoUnsubscribe = async (gmail: gmail_v1.Gmail, mailto: string) => {
+  const url = new URL(mailto);
+  const address = decodeURIComponent(url.pathname);
+  const raw = buildRawMessage({
+    to: [address],
+    subject: url.searchParams.get("subject") || "unsubscribe",
+    body: url.searchParams.get("body") || "unsubscribe",
+  });
+  await gmail.users.messages.send({ userId: "me", requestBody: { raw } });
+  return address;
+};
+
+/**
+ * Unsubscribes from the list behind a message (or the newest message from a
+ * sender): RFC 8058 one-click POST when offered, otherwise an email to the
+ * mailto target. Plain https links need a browser and are returned instead.
+ */
+export const unsubscribe = async (
+  gmail: gmail_v1.Gmail,
+  params: {
+    messageId?: string;
+    sender?: string;
+    archiveExisting?: boolean;
+    filterFuture?: boolean;
+  }
+): Promise<UnsubscribeResult> => {
+  let messageId = params.messageId;
+  if (!messageId) {
+    if (!params.sender) throw new Error("Provide a messageId or a sender");
+    [messageId] = await listAllMessageIds(gmail, {
+      q: `from:${extractEmailAddress(params.sender)}`,
+      maxMessages: 1,
+    });
+    if (!messageId) throw new Error(`No messages found from ${params.sender}`);
+  }
+
+  const [message] = await fetchListMetadata(gmail, [messageId]);
+  if (!message) throw new Error(`Message ${messageId} not found`);
+  const headers = message.payload?.headers || [];
+  const email = extractEmailAddress(findHeader(headers, "From") || "");
+  const targets = parseListUnsubscribe(
+    findHeader(headers, "List-Unsubscribe"),
+    findHeader(headers, "List-Unsubscribe-Post")
+  );
+
+  let result: UnsubscribeResult;
+  if (targets.oneClick && targets.http) {
+    const response = await postOneClickUnsubscribe(targets.http);
+    const success = response.status >= 200 && response.status < 300;
+    result = {
+      email,
+      method: "one-click",
+      success,
+      detail: `One-click unsubscribe POST returned HTTP ${response.status}`,
+    };
+  } else if (targets.mailto) {
+    const address = await sendMailtoUnsubscribe(gmail, targets.mailto);
+    result = {
+      email,
+      method: "mailto",
+      success: true,
+      detail: `Sent unsubscribe request to ${address}`,
+    };
+  } else if (targets.http) {
+    result = {
+      email,
+      method: "manual",
+      success: false,
+      detail: "The sender only offers an unsubscribe page, open it to finish",
+      url: targets.http,
+    };
+  } else {
+    result = {
+      email,
+      method: "none",
+      success: false,
+      detail: "The message has no List-Unsubscribe header",
+    };
+  }
+
+  if (params.archiveExisting && email) {
+    const ids = await listAllMessageIds(gmail, {
+      q: `from:${email} in:inbox`,
+    });
+    for (const batch of chunkArray(ids, GMAIL_BATCH_LIMIT)) {
+      await gmail.users.messages.batchModify({
+        userId: "me",
+        requestBody: { ids: batch, ...BULK_ACTION_LABELS.archive },
+      });
+    }
+    result.archived = ids.length;
+  }
+
+  if (params.filterFuture && email) {
+    const { data } = await gmail.users.settings.filters.create({
+      userId: "me",
+      requestBody: {
+        criteria: { from: email },
+        action: BULK_ACTION_LABELS.archive,
+      },
+    });
+    result.filterId = data.id || undefined;
+  }
+
+  return result;
+};
@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import { configManager } from "../utils/configManager.js";
+import { escapeHtml, NewMessage } from "./gmail.js";
+import {
+  findPlaceholders,
+  renderTemplate,
+  TemplateValues,
+} from "./text-template.js";
+
+export type TemplateVariable = {
+  name: string;
+  description?: string;
+  default?: string;
+};
+
+export type EmailTemplate = {
+  name: string;
+  description?: string;
+  subject: string;
+  body: string;
+  htmlBody?: string;
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  variables: TemplateVariable[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EmailTemplateInput = Omit<
+  EmailTemplate,
+  "variables" | "createdAt" | "updatedAt"
+> & { variables?: TemplateVariable[] };
+
+const getTemplatesPath = () =>
+  configManager.getGeneralConfig().gmailTemplatesPath;
+
+const readTemplates = (): Record<string, EmailTemplate> => {
+  try {
+    if (fs.existsSync(getTemplatesPath())) {
+      return JSON.parse(fs.readFileSync(getTemplatesPath(), "utf-8"));
+    }
+  } catch (e) {
+    console.warn(`Could not read email templates: ${e}`);
+  }
+  return {};
+};
+
+const writeTemplates = (templates: Record<string, EmailTemplate>) => {
+  fs.mkdirSync(path.dirname(getTemplatesPath()), { recursive: true });
+  fs.writeFileSync(
+    getTemplatesPath(),
+    JSON.stringify(templates, null, 2),
+    "utf-8"
+  );
+};
+
+const templateKey = (name: string) => name.trim().toLowerCase();
+
+export const listTemplates = () =>
+  Object.values(readTemplates()).sort((a, b) => a.name.localeCompare(b.name));
+
+export const getTemplate = (name: string) => {
+  const template = readTemplates()[templateKey(name)];
+  if (!template) throw new Error(`No email template named "${name}"`);
+  return template;
+};
+
+/**
+ * Creates or replaces a template. Placeholders used in the subject, bodies
+ * or recipients that are not declared are added to `variables`, so the
+ * list always tells the caller what to fill in.
+ */
+export const saveTemplate = (input: EmailTemplateInput) => {
+  if (!input.name.trim()) throw new Error("Template name is required");
+
+  const templates = readTemplates();
+  const existing = templates[templateKey(input.name)];
+  const variables = [...(input.variables || [])];
+  const used = findPlaceholders(
+    [
+      input.subject,
+      input.body,
+      input.htmlBody || "",
+      ...(input.to || []),
+      ...(input.cc || []),
+      ...(input.bcc || []),
+    ].join("\n")
+  );
+  for (const name of used) {
+    if (!variables.some((v) => v.name.toLowerCase() === name.toLowerCase()))
+      variables.push({ name });
+  }
+
+  const now = new Date().toISOString();
+  const template: EmailTemplate = {
+    ...input,
+    name: input.name.trim(),
+    variables,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  templates[templateKey(input.name)] = template;
+  writeTemplates(templates);
+  return { template, created: !existing };
+};
+
+export const deleteTemplate = (name: string) => {
+  const templates = readTemplates();
+  if (!templates[templateKey(name)])
+    throw new Error(`No email template named "${name}"`);
+  delete templates[templateKey(name)];
+  writeTemplates(templates);
+};
+
+/**
+ * Fills a template with `values` (falling back to each variable's default)
+ * and returns the message to send. Explicit recipients replace the
+ * template's default ones. Throws when a variable has no value unless
+ * `allowMissing` is set.
+ */
+export const renderEmailTemplate = (
+  template: EmailTemplate,
+  values: TemplateValues = {},
+  overrides: Pick<NewMessage, "to" | "cc" | "bcc"> = {},
+  allowMissing = false
+): NewMessage => {
+  const merged: TemplateValues = {};
+  for (const variable of template.variables) {
+    if (variable.default !== undefined)
+      merged[variable.name] = variable.default;
+  }
+  Object.assign(merged, values);
+
+  const missing = new Set<string>();
+  const render = (text: string, escape?: (value: string) => string) => {
+    const result = renderTemplate(text, merged, escape);
+    result.missing.forEach((name) => missing.add(name));
+    return result.text;
+  };
+  const renderList = (list: string[] | undefined) =>
+    list?.map((item) => render(item)).filter((address) => address.trim());
+
+  const message: NewMessage = {
+    subject: render(template.subject),
+    body: render(template.body),
+    htmlBody: template.htmlBody
+      ? render(template.htmlBody, escapeHtml)
+      : undefined,
+    to: renderList(overrides.to || template.to),
+    cc: renderList(overrides.cc || template.cc),
+    bcc: renderList(overrides.bcc || template.bcc),
+  };
+
+  if (missing.size && !allowMissing)
+    throw new Error(
+      `Missing values for template variables: ${[...missing].join(", ")}`
+    );
+  return message;
+};
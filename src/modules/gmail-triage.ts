@@ -0,0 +1,186 @@
+import {
+  Message,
+  MessagePart,
+  MessagePartHeader,
+  extractEmailAddress,
+  findHeader,
+  getDecodedBodyText,
+  parseAddressList,
+  processMessagePart,
+} from "./gmail.js";
+import { cleanMessageText } from "./email-text.js";
+
+export type TriageBucket =
+  | "needs_reply"
+  | "fyi"
+  | "newsletter"
+  | "transaction"
+  | "calendar_invite"
+  | "notification";
+
+export const TRIAGE_BUCKETS: TriageBucket[] = [
+  "needs_reply",
+  "fyi",
+  "newsletter",
+  "transaction",
+  "calendar_invite",
+  "notification",
+];
+
+export const TRIAGE_LABEL_NAMES: Record<TriageBucket, string> = {
+  needs_reply: "Needs reply",
+  fyi: "FYI",
+  newsletter: "Newsletter",
+  transaction: "Receipts",
+  calendar_invite: "Invites",
+  notification: "Notifications",
+};
+
+// Nested under this parent label when applied, e.g. "Triage/Needs reply"
+export const DEFAULT_TRIAGE_LABEL_PREFIX = "Triage";
+
+export type TriageResult = {
+  id: string;
+  threadId: string;
+  from: string;
+  subject: string;
+  date: string;
+  snippet: string;
+  bucket: TriageBucket;
+  reasons: string[];
+};
+
+const TRANSACTION_SUBJECT_REGEX =
+  /\b(receipt|invoice|your order|order (confirmation|#|no)|payment (received|confirmation|failed)|purchase|has shipped|shipping confirmation|delivered|transaction|statement|refund|booking confirmation|reservation confirmed|subscription renewal)\b/i;
+const TRANSACTION_BODY_REGEX =
+  /\b(order (number|#)|amount (due|paid)|total:|invoice (number|#)|transaction id|payment (received|confirmation))/i;
+const TRANSACTION_DOMAINS = [
+  "paypal.com",
+  "stripe.com",
+  "squareup.com",
+  "amazon.com",
+  "uber.com",
+  "apple.com",
+  "booking.com",
+];
+
+const NOTIFICATION_SENDER_REGEX =
+  /^(no-?reply|do-?not-?reply|notifications?|alerts?|mailer-daemon|postmaster|updates?|support|info|system|automated)([+.-].*)?@/i;
+const NOTIFICATION_DOMAINS = [
+  "github.com",
+  "gitlab.com",
+  "atlassian.net",
+  "slack.com",
+  "linkedin.com",
+  "facebookmail.com",
+  "accounts.google.com",
+  "calendar-notification.google.com",
+];
+
+const REQUEST_REGEX =
+  /(\?\s*$|\b(could|can|would|will) you\b|\bplease\b|\blet me know\b|\bwhat do you think\b|\bthoughts\b|\bany update\b|\bget back to me\b|\basap\b|\bby (eod|end of day|tomorrow|monday|tuesday|wednesday|thursday|friday)\b)/im;
+
+const hasCalendarPart = (part: MessagePart | undefined): boolean =>
+  !!part &&
+  (part.mimeType === "text/calendar" ||
+    part.mimeType === "application/ics" ||
+    !!part.filename?.toLowerCase().endsWith(".ics") ||
+    (part.parts || []).some(hasCalendarPart));
+
+const domainMatches = (email: string, domains: string[]) => {
+  const domain = email.split("@")[1] || "";
+  return domains.some((d) => domain === d || domain.endsWith(`.${d}`));
+};
+
+/**
+ * Sorts a message into a triage bucket using its headers, labels, MIME
+ * structure and body cues. `message` must be fetched with format=full and
+ * not yet passed through `processMessagePart`, which drops the List-* and
+ * Precedence headers these rules rely on.
+ */
+export const classifyMessage = (
+  message: Message,
+  ownAddresses: string[]
+): TriageResult => {
+  const headers: MessagePartHeader[] = message.payload?.headers || [];
+  const labels = message.labelIds || [];
+  const header = (name: string) => findHeader(headers, name) || "";
+
+  const from = header("from");
+  const fromEmail = extractEmailAddress(from);
+  const subject = header("subject");
+  const precedence = header("precedence").toLowerCase();
+  const autoSubmitted = header("auto-submitted").toLowerCase();
+
+  const result = (bucket: TriageBucket, reasons: string[]): TriageResult => ({
+    id: message.id || "",
+    threadId: message.threadId || "",
+    from,
+    subject,
+    date: header("date"),
+    snippet: message.snippet || "",
+    bucket,
+    reasons,
+  });
+
+  if (hasCalendarPart(message.payload))
+    return result("calendar_invite", ["has a calendar (text/calendar) part"]);
+  if (/^(updated )?invitation:/i.test(subject))
+    return result("calendar_invite", ["subject is a calendar invitation"]);
+
+  const body = message.payload
+    ? cleanMessageText(
+        getDecodedBodyText(
+          processMessagePart(JSON.parse(JSON.stringify(message.payload)), true)
+        )
+      )
+    : "";
+
+  if (TRANSACTION_SUBJECT_REGEX.test(subject))
+    return result("transaction", ["subject mentions a receipt or order"]);
+  if (domainMatches(fromEmail, TRANSACTION_DOMAINS))
+    return result("transaction", [`sent by payment provider ${fromEmail}`]);
+  if (TRANSACTION_BODY_REGEX.test(body))
+    return result("transaction", ["body contains order or payment details"]);
+
+  const newsletterReasons: string[] = [];
+  if (header("list-unsubscribe"))
+    newsletterReasons.push("has List-Unsubscribe header");
+  if (header("list-id")) newsletterReasons.push("has List-Id header");
+  if (precedence === "bulk" || precedence === "list")
+    newsletterReasons.push(`Precedence: ${precedence}`);
+  if (labels.includes("CATEGORY_PROMOTIONS"))
+    newsletterReasons.push("Gmail category Promotions");
+  if (newsletterReasons.length) return result("newsletter", newsletterReasons);
+
+  const notificationReasons: string[] = [];
+  if (autoSubmitted && autoSubmitted !== "no")
+    notificationReasons.push(`Auto-Submitted: ${autoSubmitted}`);
+  if (precedence === "auto_reply" || precedence === "junk")
+    notificationReasons.push(`Precedence: ${precedence}`);
+  if (NOTIFICATION_SENDER_REGEX.test(fromEmail))
+    notificationReasons.push(`automated sender address ${fromEmail}`);
+  if (domainMatches(fromEmail, NOTIFICATION_DOMAINS))
+    notificationReasons.push(`sent by notification service ${fromEmail}`);
+  if (labels.includes("CATEGORY_UPDATES") || labels.includes("CATEGORY_SOCIAL"))
+    notificationReasons.push("Gmail category Updates or Social");
+  if (notificationReasons.length)
+    return result("notification", notificationReasons);
+
+  const own = new Set(ownAddresses.map((a) => extractEmailAddress(a)));
+  const directlyAddressed = parseAddressList(header("to")).some((address) =>
+    own.has(extractEmailAddress(address))
+  );
+
+  if (directlyAddressed && REQUEST_REGEX.test(body))
+    return result("needs_reply", [
+      "sent directly to you",
+      "contains a question or request",
+    ]);
+
+  return result("fyi", [
+    directlyAddressed
+      ? "sent directly to you without a question or request"
+      : "you are in Cc or on a group address",
+  ]);
+};
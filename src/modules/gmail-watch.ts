@@ -0,0 +1,437 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import crypto from "crypto";
+import axios from "axios";
+import { gmail_v1 } from "googleapis";
+import { configManager } from "../utils/configManager.js";
+import { logger } from "../utils/logger.js";
+import { findHeader, handleTool } from "./gmail.js";
+
+// Gmail watches expire after 7 days; renew once less than a day is left
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+const RENEW_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const PULL_INTERVAL_MS = 10 * 1000;
+const MAX_RECENT_MESSAGES = 50;
+// Pub/Sub push requests carry a small JSON envelope
+const MAX_PUSH_BODY_BYTES = 64 * 1024;
+
+export const WATCH_RESOURCE_URI = "gmail://watch/new-mail";
+
+export type WatchRequest = {
+  topicName: string;
+  labelIds?: string[];
+  labelFilterAction?: "include" | "exclude";
+};
+
+export type NewMailItem = {
+  id: string;
+  threadId?: string;
+  labelIds: string[];
+  from?: string;
+  subject?: string;
+  snippet?: string;
+  receivedAt?: string;
+};
+
+export type WatchState = {
+  request: WatchRequest;
+  historyId: string;
+  expiration: string;
+  renewedAt: string;
+  lastNotificationAt?: string;
+  recentMessages: NewMailItem[];
+};
+
+type WatchNotification = { emailAddress?: string; historyId?: string };
+
+// Response of the Pub/Sub REST `subscriptions.pull` method
+type PubsubPullResponse = {
+  receivedMessages?: {
+    ackId: string;
+    message?: {
+      data?: string;
+      messageId?: string;
+      publishTime?: string;
+      attributes?: Record<string, string>;
+    };
+  }[];
+};
+
+const getWatchPath = () => configManager.getGeneralConfig().gmailWatchPath;
+
+export const readWatchState = (): WatchState | undefined => {
+  try {
+    if (fs.existsSync(getWatchPath()))
+      return JSON.parse(fs.readFileSync(getWatchPath(), "utf-8"));
+  } catch (e) {
+    logger.warn(`Could not read Gmail watch state: ${e}`);
+  }
+  return undefined;
+};
+
+const writeWatchState = (state: WatchState) => {
+  fs.mkdirSync(path.dirname(getWatchPath()), { recursive: true });
+  fs.writeFileSync(getWatchPath(), JSON.stringify(state, null, 2), "utf-8");
+};
+
+const callWatch = async (gmail: gmail_v1.Gmail, request: WatchRequest) => {
+  const { data } = await gmail.users.watch({
+    userId: "me",
+    requestBody: request,
+  });
+  return data;
+};
+
+/**
+ * Registers the watch and remembers its request, so it can be renewed, and
+ * its history ID, from which new mail is fetched when notifications arrive.
+ */
+export const startWatch = async (
+  gmail: gmail_v1.Gmail,
+  request: WatchRequest
+) => {
+  const data = await callWatch(gmail, request);
+  const state: WatchState = {
+    request,
+    historyId: data.historyId!,
+    expiration: new Date(Number(data.expiration)).toISOString(),
+    renewedAt: new Date().toISOString(),
+    recentMessages: readWatchState()?.recentMessages || [],
+  };
+  writeWatchState(state);
+  return { ...data, expiresAt: state.expiration };
+};
+
+export const stopWatch = async (gmail: gmail_v1.Gmail) => {
+  await gmail.users.stop({ userId: "me" });
+  if (fs.existsSync(getWatchPath())) fs.unlinkSync(getWatchPath());
+};
+
+/**
+ * Calls `users.watch` again when the stored watch expires within a day.
+ * The stored history ID is kept so no changes are skipped.
+ */
+export const renewWatchIfDue = async (gmail: gmail_v1.Gmail) => {
+  const state = readWatchState();
+  if (!state) return false;
+  if (new Date(state.expiration).getTime() - Date.now() > RENEW_BEFORE_MS)
+    return false;
+
+  const data = await callWatch(gmail, state.request);
+  writeWatchState({
+    ...(readWatchState() || state),
+    expiration: new Date(Number(data.expiration)).toISOString(),
+    renewedAt: new Date().toISOString(),
+  });
+  return true;
+};
+
+/**
+ * Decodes the base64 `data` of a Pub/Sub message sent by a Gmail watch,
+ * which holds `{ emailAddress, historyId }`.
+ */
+export const decodeWatchNotification = (data?: string | null) => {
+  if (!data) return undefined;
+  try {
+    return JSON.parse(
+      Buffer.from(data, "base64").toString("utf-8")
+    ) as WatchNotification;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Fetches messages added since the stored history ID and advances it. Drafts
+ * and sent mail are left out, as are messages outside the watched labels.
+ * When the stored history ID is too old Gmail answers 404; the watch then
+ * restarts from the notification's history ID.
+ */
+export const fetchNewMail = async (
+  gmail: gmail_v1.Gmail,
+  notificationHistoryId?: string
+): Promise<NewMailItem[]> => {
+  const state = readWatchState();
+  if (!state) return [];
+
+  const added = new Map<string, gmail_v1.Schema$Message>();
+  let latestHistoryId = state.historyId;
+  let pageToken: string | undefined;
+  try {
+    do {
+      const { data } = await gmail.users.history.list({
+        userId: "me",
+        startHistoryId: state.historyId,
+        historyTypes: ["messageAdded"],
+        pageToken,
+      });
+      for (const record of data.history || []) {
+        for (const { message } of record.messagesAdded || []) {
+          if (message?.id) added.set(message.id, message);
+        }
+      }
+      latestHistoryId = data.historyId || latestHistoryId;
+      pageToken = data.nextPageToken || undefined;
+    } while (pageToken);
+  } catch (error: any) {
+    if (error.code !== 404) throw error;
+    logger.warn(
+      `Gmail history ${state.historyId} expired, resuming from ${notificationHistoryId}`
+    );
+    latestHistoryId = notificationHistoryId || latestHistoryId;
+  }
+
+  const { labelIds = [], labelFilterAction = "include" } = state.request;
+  const watched = (message: gmail_v1.Schema$Message) => {
+    const labels = message.labelIds || [];
+    if (labels.includes("DRAFT") || labels.includes("SENT")) return false;
+    if (!labelIds.length) return true;
+    const matches = labelIds.some((id) => labels.includes(id));
+    return labelFilterAction === "include" ? matches : !matches;
+  };
+
+  const items: NewMailItem[] = [];
+  for (const message of [...added.values()].filter(watched)) {
+    try {
+      const { data } = await gmail.users.messages.get({
+        userId: "me",
+        id: message.id!,
+        format: "metadata",
+        metadataHeaders: ["From", "Subject"],
+      });
+      items.push({
+        id: data.id!,
+        threadId: data.threadId || undefined,
+        labelIds: data.labelIds || [],
+        from: findHeader(data.payload?.headers || [], "from"),
+        subject: findHeader(data.payload?.headers || [], "subject"),
+        snippet: data.snippet || undefined,
+        receivedAt: data.internalDate
+          ? new Date(Number(data.internalDate)).toISOString()
+          : undefined,
+      });
+    } catch (error: any) {
+      // Deleted again before we got to it
+      if (error.code !== 404) throw error;
+    }
+  }
+
+  const latest = readWatchState() || state;
+  writeWatchState({
+    ...latest,
+    historyId: latestHistoryId,
+    lastNotificationAt: new Date().toISOString(),
+    recentMessages: [...items, ...latest.recentMessages].slice(
+      0,
+      MAX_RECENT_MESSAGES
+    ),
+  });
+  return items;
+};
+
+const isLoopbackHost = (host: string) =>
+  host === "localhost" || host === "::1" || host.startsWith("127.");
+
+// Compared in constant time, so response times do not reveal the token
+const tokenMatches = (given: string | null, token: string) => {
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given || "");
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+};
+
+/**
+ * Accepts Pub/Sub push requests on any path. When a token is configured the
+ * subscription's push endpoint must pass it as `?token=`; listening on
+ * anything but the loopback interface requires one.
+ */
+const startPushReceiver = (
+  port: number,
+  host: string,
+  token: string,
+  onNotification: (notification: WatchNotification) => void
+) => {
+  if (!token && !isLoopbackHost(host)) {
+    logger.warn(
+      `Gmail push receiver not started: set GMAIL_PUSH_TOKEN to listen on ${host}`
+    );
+    return undefined;
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    if (token && !tokenMatches(url.searchParams.get("token"), token)) {
+      res.writeHead(403).end();
+      return;
+    }
+
+    const tooLarge = () => {
+      res.writeHead(413, { Connection: "close" }).end();
+      // Drained without being kept
+      req.removeAllListeners("data").removeAllListeners("end").resume();
+    };
+    if (Number(req.headers["content-length"]) > MAX_PUSH_BODY_BYTES) {
+      tooLarge();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PUSH_BODY_BYTES) tooLarge();
+      else chunks.push(chunk);
+    });
+    req.on("end", () => {
+      let notification: WatchNotification | undefined;
+      try {
+        const body = Buffer.concat(chunks).toString("utf-8");
+        notification = decodeWatchNotification(JSON.parse(body).message?.data);
+      } catch {
+        // Malformed bodies are acknowledged so Pub/Sub does not retry them
+      }
+      res.writeHead(204).end();
+      if (notification) onNotification(notification);
+    });
+  });
+
+  server.on("error", (error) =>
+    logger.warn(`Gmail push receiver failed: ${error.message}`)
+  );
+  server.listen(port, host);
+  return server;
+};
+
+/**
+ * Polls a Pub/Sub compatible REST endpoint, such as the Pub/Sub emulator,
+ * and acknowledges each message after handing it on.
+ */
+const startPullLoop = (
+  endpoint: string,
+  subscription: string,
+  onNotification: (notification: WatchNotification) => void
+) => {
+  const baseUrl = /^https?:\/\//.test(endpoint)
+    ? endpoint.replace(/\/+$/, "")
+    : `http://${endpoint}`;
+  let pulling = false;
+
+  const pull = async () => {
+    if (pulling) return;
+    pulling = true;
+    try {
+      const { data } = await axios.post<PubsubPullResponse>(
+        `${baseUrl}/v1/${subscription}:pull`,
+        { maxMessages: 10, returnImmediately: true },
+        { timeout: 30000 }
+      );
+      const received = data.receivedMessages || [];
+      if (!received.length) return;
+
+      for (const { message } of received) {
+        const notification = decodeWatchNotification(message?.data);
+        if (notification) onNotification(notification);
+      }
+      await axios.post(
+        `${baseUrl}/v1/${subscription}:acknowledge`,
+        { ackIds: received.map((item) => item.ackId) },
+        { timeout: 30000 }
+      );
+    } catch (error: any) {
+      logger.warn(`Gmail Pub/Sub pull failed: ${error.message}`);
+    } finally {
+      pulling = false;
+    }
+  };
+
+  const timer = setInterval(pull, PULL_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+let watchStarted = false;
+
+/**
+ * Starts the background side of `gmail_watch_mailbox`: hourly renewal of a
+ * stored watch, plus the push endpoint and/or pull loop when configured.
+ * Notifications are handled one at a time, and `onNewMail` is called with
+ * the new messages each one brought in.
+ */
+export const startGmailWatch = (
+  config: Record<string, any> | undefined,
+  onNewMail: (items: NewMailItem[]) => Promise<void> | void
+) => {
+  if (watchStarted) return;
+  watchStarted = true;
+  const {
+    gmailPushPort,
+    gmailPushHost,
+    gmailPushToken,
+    gmailPubsubEndpoint,
+    gmailPubsubSubscription,
+  } = configManager.getGeneralConfig();
+
+  const renew = async () => {
+    if (!readWatchState()) return;
+    const result = await handleTool(config, (gmail) => renewWatchIfDue(gmail));
+    if (typeof result !== "boolean")
+      logger.warn(`Gmail watch not renewed: ${JSON.stringify(result)}`);
+  };
+  setInterval(renew, RENEW_CHECK_INTERVAL_MS).unref();
+  setTimeout(renew, 0).unref();
+
+  let queue = Promise.resolve();
+  const onNotification = (notification: WatchNotification) => {
+    queue = queue
+      .then(async () => {
+        const result = await handleTool(config, (gmail) =>
+          fetchNewMail(gmail, notification.historyId)
+        );
+        if (!Array.isArray(result)) {
+          logger.warn(`Gmail changes not fetched: ${JSON.stringify(result)}`);
+        } else if (result.length) {
+          await onNewMail(result);
+        }
+      })
+      .catch((error) =>
+        logger.warn(`Gmail watch notification failed: ${error.message}`)
+      );
+  };
+
+  if (gmailPushPort)
+    startPushReceiver(
+      Number(gmailPushPort),
+      gmailPushHost,
+      gmailPushToken,
+      onNotification
+    );
+  if (gmailPubsubEndpoint && gmailPubsubSubscription)
+    startPullLoop(gmailPubsubEndpoint, gmailPubsubSubscription, onNotification);
+};
+
+export const getWatchReceiverConfig = () => {
+  const {
+    gmailPushPort,
+    gmailPushHost,
+    gmailPushToken,
+    gmailPubsubEndpoint,
+    gmailPubsubSubscription,
+  } = configManager.getGeneralConfig();
+  return {
+    pushPort: gmailPushPort ? Number(gmailPushPort) : undefined,
+    pushHost: gmailPushPort ? gmailPushHost : undefined,
+    pushTokenRequired: !!gmailPushToken,
+    pullEndpoint:
+      gmailPubsubEndpoint && gmailPubsubSubscription
+        ? gmailPubsubEndpoint
+        : undefined,
+    pullSubscription: gmailPubsubSubscription || undefined,
+  };
+};
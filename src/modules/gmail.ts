@@ -1,9 +1,21 @@
 import { z } from "zod";
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
 import { google, gmail_v1 } from "googleapis";
 import { createOAuth2Client, validateCredentials } from "../oauth/index.js";
 import { getDefaultOAuth2Client } from "../oauth/providers/google.js";
+import {
+  encodeHeaderValue,
+  encodeQuotedPrintable,
+  foldHeader,
+  formatAddressHeader,
+  formatMimeParameter,
+} from "./mime.js";
+import { cleanMessageText, htmlToText } from "./email-text.js";
 
 export type Draft = gmail_v1.Schema$Draft;
+export type FilterCriteria = gmail_v1.Schema$FilterCriteria;
 export type DraftCreateParams = gmail_v1.Params$Resource$Users$Drafts$Create;
 export type DraftUpdateParams = gmail_v1.Params$Resource$Users$Drafts$Update;
 export type Message = gmail_v1.Schema$Message;
@@ -11,8 +23,17 @@ export type MessagePart = gmail_v1.Schema$MessagePart;
 export type MessagePartBody = gmail_v1.Schema$MessagePartBody;
 export type MessagePartHeader = gmail_v1.Schema$MessagePartHeader;
 export type MessageSendParams = gmail_v1.Params$Resource$Users$Messages$Send;
+export type SendAs = gmail_v1.Schema$SendAs;
 export type Thread = gmail_v1.Schema$Thread;
 
+export type MessageAttachment = {
+  path?: string | undefined;
+  data?: string | undefined;
+  filename?: string | undefined;
+  mimeType?: string | undefined;
+  contentId?: string | undefined;
+};
+
 export type NewMessage = {
   threadId?: string;
   raw?: string;
@@ -21,9 +42,58 @@ export type NewMessage = {
   bcc?: string[] | undefined;
   subject?: string | undefined;
   body?: string | undefined;
+  htmlBody?: string | undefined;
+  attachments?: MessageAttachment[] | undefined;
+  inlineImages?: MessageAttachment[] | undefined;
+  from?: string | undefined;
+  includeSignature?: boolean | undefined;
   includeBodyHtml?: boolean;
 };
 
+type MimePart = {
+  headers: string[];
+  body: string;
+};
+
+// Text of a quoted or forwarded message, with its HTML when it had any
+export type QuotedContent = {
+  text: string;
+  html?: string;
+};
+
+type LoadedAttachment = {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+  contentId?: string;
+};
+
+export const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".ics": "text/calendar",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".webp": "image/webp",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
 export const RESPONSE_HEADERS_LIST = [
   "Date",
   "From",
@@ -34,6 +104,14 @@ export const RESPONSE_HEADERS_LIST = [
   "References",
 ];
 
+// Mailing-list headers read by `gmail_list_subscriptions` and `gmail_unsubscribe`
+export const LIST_HEADERS_LIST = [
+  "List-Id",
+  "List-Unsubscribe",
+  "List-Unsubscribe-Post",
+  "Precedence",
+];
+
 // Lazy-loaded to avoid issues during testing
 let _defaultGmailClient: any = null;
 
@@ -97,6 +175,97 @@ export const handleTool = async (
   }
 };
 
+// Maximum number of message IDs accepted by batchModify and batchDelete
+export const GMAIL_BATCH_LIMIT = 1000;
+
+export type BulkAction = "archive" | "trash" | "markRead" | "markUnread";
+
+export const BULK_ACTION_LABELS: Record<
+  BulkAction,
+  { addLabelIds?: string[]; removeLabelIds?: string[] }
+> = {
+  archive: { removeLabelIds: ["INBOX"] },
+  trash: { addLabelIds: ["TRASH"] },
+  markRead: { removeLabelIds: ["UNREAD"] },
+  markUnread: { addLabelIds: ["UNREAD"] },
+};
+
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Pages through `users.messages.list` and returns the ID of every message
+ * matching the query, stopping early once `maxMessages` is reached.
+ */
+export const listAllMessageIds = async (
+  gmail: gmail_v1.Gmail,
+  params: {
+    q?: string;
+    labelIds?: string[];
+    includeSpamTrash?: boolean;
+    maxMessages?: number;
+  },
+  onPage?: (count: number) => Promise<void> | void
+) => {
+  const { maxMessages, ...listParams } = params;
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const { data } = await gmail.users.messages.list({
+      userId: "me",
+      maxResults: 500,
+      pageToken,
+      ...listParams,
+    });
+
+    ids.push(
+      ...(data.messages || [])
+        .map((message) => message.id)
+        .filter((id): id is string => !!id)
+    );
+    pageToken = data.nextPageToken || undefined;
+    await onPage?.(ids.length);
+  } while (pageToken && (!maxMessages || ids.length < maxMessages));
+
+  return maxMessages ? ids.slice(0, maxMessages) : ids;
+};
+
+/**
+ * Resolves label names to IDs, creating any user label that does not exist
+ * yet. Names are matched case-insensitively like in the Gmail UI.
+ */
+export const ensureLabels = async (gmail: gmail_v1.Gmail, names: string[]) => {
+  const { data } = await gmail.users.labels.list({ userId: "me" });
+  const existing = new Map(
+    (data.labels || []).map((label) => [label.name?.toLowerCase(), label.id])
+  );
+
+  const ids: Record<string, string> = {};
+  for (const name of names) {
+    let id = existing.get(name.toLowerCase());
+    if (!id) {
+      const { data: created } = await gmail.users.labels.create({
+        userId: "me",
+        requestBody: {
+          name,
+          messageListVisibility: "show",
+          labelListVisibility: "labelShow",
+        },
+      });
+      id = created.id;
+      existing.set(name.toLowerCase(), id);
+    }
+    if (id) ids[name] = id;
+  }
+  return ids;
+};
+
 export const decodedBody = (body: MessagePartBody) => {
   if (!body?.data) return body;
 
@@ -109,9 +278,15 @@ export const decodedBody = (body: MessagePartBody) => {
   return decodedBody;
 };
 
+/**
+ * Decodes the bodies of a message part tree in place and trims each part's
+ * headers down to `headerNames` (matched case-insensitively). Pass null to
+ * keep every header.
+ */
 export const processMessagePart = (
   messagePart: MessagePart,
-  includeBodyHtml = false
+  includeBodyHtml = false,
+  headerNames: string[] | null = RESPONSE_HEADERS_LIST
 ): MessagePart => {
   if (
     (messagePart.mimeType !== "text/html" || includeBodyHtml) &&
@@ -122,30 +297,33 @@ export const processMessagePart = (
 
   if (messagePart.parts) {
     messagePart.parts = messagePart.parts.map((part) =>
-      processMessagePart(part, includeBodyHtml)
+      processMessagePart(part, includeBodyHtml, headerNames)
     );
   }
 
-  if (messagePart.headers) {
+  if (messagePart.headers && headerNames) {
+    const keep = headerNames.map((name) => name.toLowerCase());
     messagePart.headers = messagePart.headers.filter((header) =>
-      RESPONSE_HEADERS_LIST.includes(header.name || "")
+      keep.includes((header.name || "").toLowerCase())
     );
   }
 
   return messagePart;
 };
 
+const quoteLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => ">" + (line.startsWith(">") ? "" : " ") + line)
+    .join("\n");
+
 export const getNestedHistory = (
   messagePart: MessagePart,
   level = 1
 ): string => {
   if (messagePart.mimeType === "text/plain" && messagePart.body?.data) {
     const { data } = decodedBody(messagePart.body);
-    if (!data) return "";
-    return data
-      .split("\n")
-      .map((line) => ">" + (line.startsWith(">") ? "" : " ") + line)
-      .join("\n");
+    return data ? quoteLines(data) : "";
   }
 
   return (messagePart.parts || [])
@@ -170,60 +348,83 @@ export const formatEmailList = (emailList: string | null | undefined) => {
   return emailList.split(",").map((email) => email.trim());
 };
 
-export const getQuotedContent = (thread: Thread) => {
-  if (!thread.messages?.length) return "";
-
-  const sentMessages = thread.messages.filter(
-    (msg) =>
-      msg.labelIds?.includes("SENT") ||
-      (!msg.labelIds?.includes("DRAFT") &&
-        findHeader(msg.payload?.headers || [], "date"))
-  );
-
-  if (!sentMessages.length) return "";
-
-  const lastMessage = sentMessages[sentMessages.length - 1];
-  if (!lastMessage?.payload) return "";
+/**
+ * Quotes a message for a reply. Messages without a plain text part are
+ * quoted from their HTML converted to text, and the HTML itself is kept for
+ * the reply's HTML alternative.
+ */
+export const quoteMessage = (message: Message): QuotedContent => {
+  if (!message.payload) return { text: "" };
 
   let quotedContent = [];
+  let attribution = "";
 
-  if (lastMessage.payload.headers) {
-    const fromHeader = findHeader(lastMessage.payload.headers || [], "from");
-    const dateHeader = findHeader(lastMessage.payload.headers || [], "date");
+  if (message.payload.headers) {
+    const fromHeader = findHeader(message.payload.headers || [], "from");
+    const dateHeader = findHeader(message.payload.headers || [], "date");
     if (fromHeader && dateHeader) {
+      attribution = `On ${dateHeader} ${fromHeader} wrote:`;
       quotedContent.push("");
-      quotedContent.push(`On ${dateHeader} ${fromHeader} wrote:`);
+      quotedContent.push(attribution);
       quotedContent.push("");
     }
   }
 
-  const nestedHistory = getNestedHistory(lastMessage.payload);
+  const html = getOriginalHtml(message.payload);
+  const nestedHistory =
+    getNestedHistory(message.payload) ||
+    (html ? quoteLines(htmlToText(html)) : "");
   if (nestedHistory) {
     quotedContent.push(nestedHistory);
     quotedContent.push("");
   }
 
-  return quotedContent.join("\n");
+  return {
+    text: quotedContent.join("\n"),
+    html: html
+      ? `<div class="gmail_quote">${escapeHtml(attribution)}<br>` +
+        `<blockquote class="gmail_quote" style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${html}</blockquote></div>`
+      : undefined,
+  };
 };
 
-export const getThreadHeaders = (thread: Thread) => {
-  let headers: string[] = [];
+export const getQuotedContent = (thread: Thread): QuotedContent => {
+  if (!thread.messages?.length) return { text: "" };
 
-  if (!thread.messages?.length) return headers;
+  const sentMessages = thread.messages.filter(
+    (msg) =>
+      msg.labelIds?.includes("SENT") ||
+      (!msg.labelIds?.includes("DRAFT") &&
+        findHeader(msg.payload?.headers || [], "date"))
+  );
 
-  const lastMessage = thread.messages[thread.messages.length - 1];
-  const references: string[] = [];
+  if (!sentMessages.length) return { text: "" };
 
-  let subjectHeader = findHeader(lastMessage.payload?.headers || [], "subject");
-  if (subjectHeader) {
-    if (!subjectHeader.toLowerCase().startsWith("re:")) {
-      subjectHeader = `Re: ${subjectHeader}`;
-    }
-    headers.push(`Subject: ${subjectHeader}`);
+  const lastMessage = sentMessages[sentMessages.length - 1];
+  if (!lastMessage?.payload) return { text: "" };
+
+  return quoteMessage(lastMessage);
+};
+
+const getPrefixedSubjectHeaders = (message: Message, subjectPrefix: string) => {
+  let subjectHeader = findHeader(message.payload?.headers || [], "subject");
+  if (!subjectHeader) return [];
+  if (!subjectHeader.toLowerCase().startsWith(subjectPrefix.toLowerCase())) {
+    subjectHeader = `${subjectPrefix} ${subjectHeader}`;
   }
+  return [foldHeader("Subject", encodeHeaderValue(subjectHeader))];
+};
+
+/**
+ * Builds the Subject, In-Reply-To and References headers that attach a new
+ * message to the conversation of the given message.
+ */
+export const getReplyHeaders = (message: Message) => {
+  const headers = getPrefixedSubjectHeaders(message, "Re:");
+  const references: string[] = [];
 
   const messageIdHeader = findHeader(
-    lastMessage.payload?.headers || [],
+    message.payload?.headers || [],
     "message-id"
   );
   if (messageIdHeader) {
@@ -232,68 +433,530 @@ export const getThreadHeaders = (thread: Thread) => {
   }
 
   const referencesHeader = findHeader(
-    lastMessage.payload?.headers || [],
+    message.payload?.headers || [],
     "references"
   );
-  if (referencesHeader) references.unshift(...referencesHeader.split(" "));
+  if (referencesHeader) references.unshift(...referencesHeader.split(/\s+/));
 
   if (references.length > 0)
-    headers.push(`References: ${references.join(" ")}`);
+    headers.push(foldHeader("References", references.join(" ")));
 
   return headers;
 };
 
-export const wrapTextBody = (text: string): string =>
-  text
-    .split("\n")
-    .map((line) => {
-      if (line.length <= 76) return line;
-      const chunks = line.match(/.{1,76}/g) || [];
-      return chunks.join("=\n");
-    })
+/**
+ * Builds the Subject header of a forward. It has no In-Reply-To or
+ * References, which would make other mail clients show it as a reply.
+ */
+export const getForwardHeaders = (message: Message) =>
+  getPrefixedSubjectHeaders(message, "Fwd:");
+
+export const getThreadHeaders = (thread: Thread) => {
+  if (!thread.messages?.length) return [];
+
+  return getReplyHeaders(thread.messages[thread.messages.length - 1]);
+};
+
+/**
+ * Splits an address header on commas that are not inside a quoted display
+ * name or angle brackets, so `"Smith, John" <john@example.com>` stays whole.
+ */
+export const parseAddressList = (value: string | null | undefined) => {
+  if (!value) return [];
+
+  const addresses: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inBrackets = false;
+
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inBrackets = true;
+    else if (char === ">" && !inQuotes) inBrackets = false;
+
+    if (char === "," && !inQuotes && !inBrackets) {
+      addresses.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  addresses.push(current.trim());
+
+  return addresses.filter((address) => address);
+};
+
+export const extractEmailAddress = (address: string) =>
+  (address.match(/<([^>]+)>/)?.[1] || address).trim().toLowerCase();
+
+/**
+ * Works out who a reply should go to. Reply-To wins over From, replying to a
+ * message we sent ourselves goes back to its original recipients, and our own
+ * addresses are never included.
+ */
+export const getReplyRecipients = (
+  message: Message,
+  ownAddresses: string[],
+  replyAll = false
+) => {
+  const headers = message.payload?.headers || [];
+  const own = new Set(ownAddresses.map((a) => extractEmailAddress(a)));
+  const isOwn = (address: string) => own.has(extractEmailAddress(address));
+
+  const from = parseAddressList(findHeader(headers, "from"));
+  const replyTo = parseAddressList(findHeader(headers, "reply-to"));
+  const originalTo = parseAddressList(findHeader(headers, "to"));
+  const originalCc = parseAddressList(findHeader(headers, "cc"));
+
+  let to: string[];
+  if (from.length && from.every(isOwn)) to = originalTo;
+  else to = replyTo.length ? replyTo : from;
+
+  const cc = replyAll ? [...originalTo, ...originalCc] : [];
+
+  const seen = new Set<string>();
+  const dedupe = (addresses: string[]) =>
+    addresses.filter((address) => {
+      const email = extractEmailAddress(address);
+      if (!email || own.has(email) || seen.has(email)) return false;
+      seen.add(email);
+      return true;
+    });
+
+  return { to: dedupe(to), cc: dedupe(cc) };
+};
+
+export const stripSubjectPrefixes = (subject: string) =>
+  subject
+    .replace(/^(\s*(re|fwd?|aw|wg|sv|tr)\s*(\[\d+\])?\s*:\s*)+/i, "")
+    .trim();
+
+/**
+ * Builds filter criteria matching mail like the given message: the sender's
+ * address and, optionally, its subject without reply or forward prefixes.
+ */
+export const getFilterCriteriaFromMessage = (
+  message: Message,
+  matchSubject = true
+): FilterCriteria => {
+  const headers = message.payload?.headers || [];
+  const criteria: FilterCriteria = {};
+
+  const from = parseAddressList(findHeader(headers, "from"))[0];
+  if (from) criteria.from = extractEmailAddress(from);
+
+  const subject = findHeader(headers, "subject");
+  if (matchSubject && subject) {
+    const stripped = stripSubjectPrefixes(subject);
+    if (stripped) criteria.subject = stripped;
+  }
+
+  return criteria;
+};
+
+export const getPlainText = (messagePart: MessagePart): string => {
+  if (messagePart.mimeType === "text/plain" && messagePart.body?.data) {
+    return decodedBody(messagePart.body).data || "";
+  }
+
+  return (messagePart.parts || [])
+    .map((p) => getPlainText(p))
+    .filter((p) => p)
     .join("\n");
+};
 
-export const constructRawMessage = async (
+/**
+ * Builds the forwarded block: the original's main headers followed by its
+ * text, or its HTML converted to text when it has no plain text part.
+ */
+export const getForwardedContent = (message: Message): QuotedContent => {
+  const headers = message.payload?.headers || [];
+  const forwarded = ["---------- Forwarded message ---------"];
+
+  for (const name of ["From", "Date", "Subject", "To", "Cc"]) {
+    const value = findHeader(headers, name);
+    if (value) forwarded.push(`${name}: ${value}`);
+  }
+  const headerBlock = forwarded.join("\n");
+  forwarded.push("");
+
+  const html = message.payload ? getOriginalHtml(message.payload) : "";
+  if (message.payload)
+    forwarded.push(
+      getPlainText(message.payload) || (html ? htmlToText(html) : "")
+    );
+
+  return {
+    text: forwarded.join("\n"),
+    html: html
+      ? `<div class="gmail_quote">${escapeHtml(headerBlock).replace(
+          /\n/g,
+          "<br>"
+        )}<br><br>${html}</div>`
+      : undefined,
+  };
+};
+
+const findBodyData = (
+  messagePart: MessagePart,
+  mimeType: string
+): string | undefined => {
+  if (messagePart.mimeType === mimeType && messagePart.body?.data)
+    return messagePart.body.data;
+
+  for (const part of messagePart.parts || []) {
+    const data = findBodyData(part, mimeType);
+    if (data) return data;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the decoded HTML of a payload as fetched from the API, reduced to
+ * the contents of its body element so it can be nested in another message.
+ */
+const getOriginalHtml = (messagePart: MessagePart) => {
+  const data = findBodyData(messagePart, "text/html");
+  if (!data) return "";
+  const html = decodedBody({ data }).data || "";
+  return html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+};
+
+/**
+ * Returns the text of a payload already decoded by `processMessagePart`,
+ * falling back to the HTML body converted to text when there is no plain
+ * text part.
+ */
+export const getDecodedBodyText = (messagePart: MessagePart) => {
+  const plain = findBodyData(messagePart, "text/plain");
+  if (plain) return plain;
+
+  const html = findBodyData(messagePart, "text/html");
+  return html ? htmlToText(html) : "";
+};
+
+export type DigestTurn = {
+  messageId: string;
+  from: string;
+  date: string;
+  text: string;
+};
+
+/**
+ * Flattens a thread into chronological turns holding only the text each
+ * sender added, without quoted history, signatures or markup.
+ */
+export const digestThread = (thread: Thread, maxCharsPerTurn?: number) => {
+  const messages = [...(thread.messages || [])]
+    .filter((message) => !message.labelIds?.includes("DRAFT"))
+    .sort((a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0));
+
+  let subject = "";
+  const turns: DigestTurn[] = messages.map((message) => {
+    const payload = processMessagePart(message.payload || {}, true);
+    subject = subject || findHeader(payload.headers, "subject") || "";
+
+    let text = cleanMessageText(getDecodedBodyText(payload));
+    if (maxCharsPerTurn && text.length > maxCharsPerTurn)
+      text = text.slice(0, maxCharsPerTurn).trimEnd() + " […]";
+
+    return {
+      messageId: message.id || "",
+      from: findHeader(payload.headers, "from") || "(unknown sender)",
+      date: message.internalDate
+        ? new Date(Number(message.internalDate))
+            .toISOString()
+            .slice(0, 16)
+            .replace("T", " ")
+        : findHeader(payload.headers, "date") || "",
+      text,
+    };
+  });
+
+  return { threadId: thread.id || "", subject, turns };
+};
+
+export const formatDigest = (digest: ReturnType<typeof digestThread>) =>
+  [
+    `Subject: ${digest.subject || "(No Subject)"}`,
+    ...digest.turns.map(
+      (turn) =>
+        `\n[${turn.date}] ${turn.from}:\n${turn.text || "(no new text)"}`
+    ),
+  ].join("\n");
+
+/**
+ * Downloads the files attached to a message so they can be sent on again,
+ * e.g. when forwarding.
+ */
+export const getMessageAttachments = async (
   gmail: gmail_v1.Gmail,
-  params: NewMessage
-) => {
-  let thread: Thread | null = null;
-  if (params.threadId) {
-    const threadParams = { userId: "me", id: params.threadId, format: "full" };
-    const { data } = await gmail.users.threads.get(threadParams);
-    thread = data;
+  message: Message
+): Promise<MessageAttachment[]> => {
+  const parts: MessagePart[] = [];
+  const collect = (part: MessagePart) => {
+    if (part.filename && (part.body?.attachmentId || part.body?.data))
+      parts.push(part);
+    (part.parts || []).forEach(collect);
+  };
+  if (message.payload) collect(message.payload);
+
+  return Promise.all(
+    parts.map(async (part) => {
+      let data = part.body?.data;
+      if (!data && part.body?.attachmentId) {
+        const { data: attachment } = await gmail.users.messages.attachments.get(
+          {
+            userId: "me",
+            messageId: message.id || "",
+            id: part.body.attachmentId,
+          }
+        );
+        data = attachment.data;
+      }
+
+      const contentId = findHeader(part.headers || [], "content-id");
+      return {
+        data: data || "",
+        filename: part.filename || undefined,
+        mimeType: part.mimeType || undefined,
+        contentId: contentId?.replace(/^<|>$/g, ""),
+      };
+    })
+  );
+};
+
+export const guessMimeType = (filename: string) =>
+  MIME_TYPES[path.extname(filename).toLowerCase()] ||
+  "application/octet-stream";
+
+export const loadAttachment = (
+  attachment: MessageAttachment
+): LoadedAttachment => {
+  let content: Buffer;
+  let filename = attachment.filename;
+
+  if (attachment.path) {
+    content = fs.readFileSync(attachment.path);
+    filename = filename || path.basename(attachment.path);
+  } else if (attachment.data) {
+    content = Buffer.from(attachment.data, "base64");
+  } else {
+    throw new Error(
+      `Attachment ${filename || "(unnamed)"} needs either a path or base64 data`
+    );
   }
 
+  if (!filename)
+    throw new Error("Attachments provided as base64 data need a filename");
+
+  return {
+    filename,
+    mimeType: attachment.mimeType || guessMimeType(filename),
+    content,
+    contentId: attachment.contentId,
+  };
+};
+
+const createBoundary = (kind: string) =>
+  `----=_Part_${kind}_${crypto.randomBytes(12).toString("hex")}`;
+
+const wrapBase64 = (content: Buffer) =>
+  (content.toString("base64").match(/.{1,76}/g) || []).join("\r\n");
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const createTextPart = (subtype: "plain" | "html", text: string): MimePart => ({
+  headers: [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    "Content-Transfer-Encoding: quoted-printable",
+  ],
+  body: encodeQuotedPrintable(text),
+});
+
+const createAttachmentPart = (
+  attachment: LoadedAttachment,
+  disposition: "attachment" | "inline"
+): MimePart => {
+  const headers = [
+    foldHeader(
+      "Content-Type",
+      `${attachment.mimeType}; ${formatMimeParameter(
+        "name",
+        attachment.filename
+      )}`
+    ),
+    "Content-Transfer-Encoding: base64",
+    foldHeader(
+      "Content-Disposition",
+      `${disposition}; ${formatMimeParameter("filename", attachment.filename)}`
+    ),
+  ];
+  if (attachment.contentId)
+    headers.push(`Content-ID: <${attachment.contentId.replace(/^<|>$/g, "")}>`);
+
+  return { headers, body: wrapBase64(attachment.content) };
+};
+
+const createMultipart = (
+  subtype: "mixed" | "alternative" | "related",
+  parts: MimePart[]
+): MimePart => {
+  if (parts.length === 1 && subtype !== "mixed") return parts[0];
+
+  const boundary = createBoundary(subtype);
+  const body = parts
+    .map((part) =>
+      [`--${boundary}`, ...part.headers, "", part.body].join("\r\n")
+    )
+    .concat(`--${boundary}--`)
+    .join("\r\n");
+
+  return {
+    headers: [
+      foldHeader(
+        "Content-Type",
+        `multipart/${subtype}; boundary="${boundary}"`
+      ),
+    ],
+    body,
+  };
+};
+
+/**
+ * Builds the MIME tree for a message: text and HTML alternatives, wrapped in
+ * multipart/related when inline images are present and in multipart/mixed
+ * when there are attachments. Quoting an HTML message adds an HTML
+ * alternative even when only a plain body was given.
+ */
+export const createMessageBody = (
+  params: NewMessage,
+  quotedContent: QuotedContent = { text: "" }
+): MimePart => {
+  let text = params.body || "";
+  if (quotedContent.text)
+    text = text ? `${text}\n\n${quotedContent.text}` : quotedContent.text;
+
+  const alternatives = [createTextPart("plain", text)];
+  const htmlBody =
+    params.htmlBody ||
+    (quotedContent.html
+      ? escapeHtml(params.body || "").replace(/\n/g, "<br>")
+      : undefined);
+  if (htmlBody !== undefined) {
+    let html = htmlBody;
+    if (quotedContent.html) {
+      html += `<br><br>${quotedContent.html}`;
+    } else if (quotedContent.text) {
+      html += `<br><blockquote>${escapeHtml(quotedContent.text).replace(
+        /\n/g,
+        "<br>"
+      )}</blockquote>`;
+    }
+    alternatives.push(createTextPart("html", html));
+  }
+
+  let content = createMultipart("alternative", alternatives);
+
+  const inlineImages = (params.inlineImages || []).map(loadAttachment);
+  if (inlineImages.length) {
+    content = createMultipart("related", [
+      content,
+      ...inlineImages.map((image) => {
+        if (!image.contentId)
+          throw new Error(
+            `Inline image ${image.filename} needs a contentId to be referenced as cid: from the HTML body`
+          );
+        return createAttachmentPart(image, "inline");
+      }),
+    ]);
+  }
+
+  const attachments = (params.attachments || []).map(loadAttachment);
+  if (attachments.length) {
+    content = createMultipart("mixed", [
+      content,
+      ...attachments.map((attachment) =>
+        createAttachmentPart(attachment, "attachment")
+      ),
+    ]);
+  }
+
+  return content;
+};
+
+export const formatSendAsAddress = (sendAs: SendAs) =>
+  sendAs.displayName
+    ? `${sendAs.displayName} <${sendAs.sendAsEmail}>`
+    : sendAs.sendAsEmail || "";
+
+export const appendSignature = (
+  params: NewMessage,
+  signatureHtml: string
+): NewMessage => ({
+  ...params,
+  body: [params.body, `-- \n${htmlToText(signatureHtml)}`]
+    .filter((part) => part)
+    .join("\n\n"),
+  htmlBody: params.htmlBody
+    ? `${params.htmlBody}<br><br><div class="gmail_signature">${signatureHtml}</div>`
+    : undefined,
+});
+
+/**
+ * Resolves `params.from` to one of the user's send-as aliases, using its
+ * display name for the From header and appending its signature unless
+ * `includeSignature` is false.
+ */
+export const applySendAs = async (
+  gmail: gmail_v1.Gmail,
+  params: NewMessage
+): Promise<NewMessage> => {
+  if (!params.from) return params;
+
+  const { data: sendAs } = await gmail.users.settings.sendAs.get({
+    userId: "me",
+    sendAsEmail: extractEmailAddress(params.from),
+  });
+
+  const message = { ...params, from: formatSendAsAddress(sendAs) };
+  if (params.includeSignature === false || !sendAs.signature) return message;
+
+  return appendSignature(message, sendAs.signature);
+};
+
+/**
+ * Assembles and base64url encodes a complete RFC 2822 message. `headers`
+ * replace the Subject header, e.g. with the ones from `getReplyHeaders`.
+ */
+export const buildRawMessage = (
+  params: NewMessage,
+  headers: string[] = [],
+  quotedContent?: QuotedContent
+) => {
   const message = [];
-  if (params.to?.length)
-    message.push(`To: ${wrapTextBody(params.to.join(", "))}`);
-  if (params.cc?.length)
-    message.push(`Cc: ${wrapTextBody(params.cc.join(", "))}`);
-  if (params.bcc?.length)
-    message.push(`Bcc: ${wrapTextBody(params.bcc.join(", "))}`);
-  if (thread) {
-    message.push(
-      ...getThreadHeaders(thread).map((header) => wrapTextBody(header))
-    );
+  if (params.from) message.push(formatAddressHeader("From", [params.from]));
+  if (params.to?.length) message.push(formatAddressHeader("To", params.to));
+  if (params.cc?.length) message.push(formatAddressHeader("Cc", params.cc));
+  if (params.bcc?.length) message.push(formatAddressHeader("Bcc", params.bcc));
+  if (headers.length) {
+    message.push(...headers);
   } else if (params.subject) {
-    message.push(`Subject: ${wrapTextBody(params.subject)}`);
+    message.push(foldHeader("Subject", encodeHeaderValue(params.subject)));
   } else {
     message.push("Subject: (No Subject)");
   }
-  message.push('Content-Type: text/plain; charset="UTF-8"');
-  message.push("Content-Transfer-Encoding: quoted-printable");
+
+  const content = createMessageBody(params, quotedContent);
   message.push("MIME-Version: 1.0");
+  message.push(...content.headers);
   message.push("");
-
-  if (params.body) message.push(wrapTextBody(params.body));
-
-  if (thread) {
-    const quotedContent = getQuotedContent(thread);
-    if (quotedContent) {
-      message.push("");
-      message.push(wrapTextBody(quotedContent));
-    }
-  }
+  message.push(content.body);
 
   return Buffer.from(message.join("\r\n"))
     .toString("base64url")
@@ -301,3 +964,99 @@ export const constructRawMessage = async (
     .replace(/\//g, "_")
     .replace(/=+$/, "");
 };
+
+export const constructRawMessage = async (
+  gmail: gmail_v1.Gmail,
+  message: NewMessage
+) => {
+  const params = await applySendAs(gmail, message);
+
+  let thread: Thread | null = null;
+  if (params.threadId) {
+    const threadParams = { userId: "me", id: params.threadId, format: "full" };
+    const { data } = await gmail.users.threads.get(threadParams);
+    thread = data;
+  }
+
+  if (!thread) return buildRawMessage(params);
+
+  return buildRawMessage(
+    params,
+    getThreadHeaders(thread),
+    getQuotedContent(thread)
+  );
+};
+
+/**
+ * Builds a reply, reply-all or forward of one specific message. Recipients,
+ * threading headers and the quoted text all come from that message rather
+ * than from whichever message happens to be last in the thread.
+ */
+export const constructResponseMessage = async (
+  gmail: gmail_v1.Gmail,
+  messageId: string,
+  mode: "reply" | "replyAll" | "forward",
+  message: NewMessage & { includeOriginalAttachments?: boolean }
+) => {
+  const params = {
+    ...(await applySendAs(gmail, message)),
+    includeOriginalAttachments: message.includeOriginalAttachments,
+  };
+
+  const { data: original } = await gmail.users.messages.get({
+    userId: "me",
+    id: messageId,
+    format: "full",
+  });
+
+  if (mode === "forward") {
+    const attachments =
+      params.includeOriginalAttachments === false
+        ? []
+        : await getMessageAttachments(gmail, original);
+    const raw = buildRawMessage(
+      {
+        ...params,
+        attachments: [...attachments, ...(params.attachments || [])],
+      },
+      getForwardHeaders(original),
+      getForwardedContent(original)
+    );
+    return { raw, threadId: original.threadId || undefined };
+  }
+
+  const { data: profile } = await gmail.users.getProfile({ userId: "me" });
+  const ownAddresses = [profile.emailAddress, params.from].filter(
+    (address): address is string => !!address
+  );
+  const recipients = getReplyRecipients(
+    original,
+    ownAddresses,
+    mode === "replyAll"
+  );
+
+  const raw = buildRawMessage(
+    {
+      ...params,
+      to: [...recipients.to, ...(params.to || [])],
+      cc: [...recipients.cc, ...(params.cc || [])],
+    },
+    getReplyHeaders(original),
+    quoteMessage(original)
+  );
+  return { raw, threadId: original.threadId || undefined };
+};
+
+export const sendDraft = async (gmail: gmail_v1.Gmail, id: string) => {
+  try {
+    const { data } = await gmail.users.drafts.send({
+      userId: "me",
+      requestBody: { id },
+    });
+    return data;
+  } catch (error: any) {
+    throw new Error(
+      `Error sending draft, are you sure you have at least one recipient? (${error.message})`
+    );
+  }
+};
@@ -1,6 +1,15 @@
+import { randomUUID } from "crypto";
 import { google, calendar_v3 } from "googleapis";
 import { createOAuth2Client, validateCredentials } from "../oauth/index.js";
 import { getDefaultOAuth2Client } from "../oauth/providers/google.js";
+import {
+  addDaysToDate,
+  DateParseOptions,
+  parseDate,
+  parseDateExpression,
+  parseDateTime as parseDateTimeExpression,
+} from "./date-parser.js";
+import { formatZonedIso, getLocalTimeZone } from "./time-zones.js";
 
 export type Calendar = calendar_v3.Schema$Calendar;
 export type CalendarEvent = calendar_v3.Schema$Event;
@@ -8,6 +17,25 @@ export type CalendarList = calendar_v3.Schema$CalendarListEntry;
 export type EventAttendee = calendar_v3.Schema$EventAttendee;
 export type EventDateTime = calendar_v3.Schema$EventDateTime;
 
+// Fields to change on an event, where a null conferenceData removes the
+// event's conference
+export type CalendarEventPatch = Omit<CalendarEvent, "conferenceData"> & {
+  conferenceData?: calendar_v3.Schema$ConferenceData | null;
+};
+
+/**
+ * The request body for a patch. The API clears fields sent as null, but the
+ * googleapis types only allow null for plain values, so a null
+ * conferenceData is added to the body after it is typed.
+ */
+export const toEventRequestBody = ({
+  conferenceData,
+  ...fields
+}: CalendarEventPatch): CalendarEvent =>
+  conferenceData === null
+    ? Object.assign<CalendarEvent, object>(fields, { conferenceData })
+    : { ...fields, conferenceData };
+
 // Lazy-loaded to avoid issues during testing
 let _defaultCalendarClient: any = null;
 
@@ -71,92 +99,214 @@ export const handleTool = async (
   }
 };
 
-export const formatDate = (dateString: string): string => {
-  // Handle relative dates
-  const today = new Date();
-  const now = new Date();
-
-  switch (dateString.toLowerCase()) {
-    case "today":
-      return today.toISOString().split("T")[0];
-    case "tomorrow":
-      today.setDate(today.getDate() + 1);
-      return today.toISOString().split("T")[0];
-    case "yesterday":
-      today.setDate(today.getDate() - 1);
-      return today.toISOString().split("T")[0];
-    default:
-      // Try to parse as ISO date or other formats
-      const date = new Date(dateString);
-      if (isNaN(date.getTime())) {
-        // If parsing fails, return the original string
-        return dateString;
-      }
-      return date.toISOString().split("T")[0];
-  }
-};
+/** Calendar date, YYYY-MM-DD, of an ISO or natural language date. */
+export const formatDate = (dateString: string): string => parseDate(dateString);
 
-export const parseDateTime = (dateTimeString: string): string => {
-  // Handle natural language dates
-  const now = new Date();
-  const today = new Date(now);
-  today.setHours(0, 0, 0, 0);
-
-  // Handle relative times
-  if (dateTimeString.toLowerCase().includes("today")) {
-    const timeMatch = dateTimeString.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-    if (timeMatch) {
-      let hour = parseInt(timeMatch[1]);
-      const minute = parseInt(timeMatch[2]);
-      const ampm = timeMatch[3]?.toLowerCase();
-
-      if (ampm === "pm" && hour !== 12) hour += 12;
-      if (ampm === "am" && hour === 12) hour = 0;
-
-      const date = new Date(today);
-      date.setHours(hour, minute, 0, 0);
-      return date.toISOString();
-    }
-  }
+/** ISO instant of an ISO or natural language date and time; throws if unparseable. */
+export const parseDateTime = (dateTimeString: string): string =>
+  parseDateTimeExpression(dateTimeString);
+
+/**
+ * An event time as ISO 8601, converted into `timeZone` when given. All-day
+ * times are returned as their date.
+ */
+export const formatEventDateTime = (
+  dateTime: EventDateTime | null | undefined,
+  timeZone?: string
+): string => {
+  if (!dateTime) return "";
+  if (dateTime.dateTime && timeZone)
+    return formatZonedIso(new Date(dateTime.dateTime), timeZone);
+  return dateTime.dateTime || dateTime.date || "";
+};
 
-  if (dateTimeString.toLowerCase().includes("tomorrow")) {
-    const timeMatch = dateTimeString.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i);
-    if (timeMatch) {
-      let hour = parseInt(timeMatch[1]);
-      const minute = parseInt(timeMatch[2]);
-      const ampm = timeMatch[3]?.toLowerCase();
+export const createEventDateTime = (
+  dateTimeString: string,
+  options?: DateParseOptions
+): EventDateTime => {
+  const parsed = parseDateExpression(dateTimeString, options);
+  const timeZone = parsed.timeZone || getLocalTimeZone();
+  return { dateTime: formatZonedIso(parsed.start, timeZone), timeZone };
+};
 
-      if (ampm === "pm" && hour !== 12) hour += 12;
-      if (ampm === "am" && hour === 12) hour = 0;
+export type EventTimeOptions = {
+  /** Force an all-day event, or a timed one, instead of going by the input */
+  allDay?: boolean;
+  /** IANA time zone the start is read in and shown in */
+  startTimeZone?: string;
+  /** IANA time zone of the end (default: the start's) */
+  endTimeZone?: string;
+  /** Length when no end is given (default: 60, or one day for all-day) */
+  defaultDurationMinutes?: number;
+};
 
-      const date = new Date(today);
-      date.setDate(date.getDate() + 1);
-      date.setHours(hour, minute, 0, 0);
-      return date.toISOString();
-    }
-  }
+/**
+ * Builds an event's start and end from ISO or natural language input. A
+ * date without a time, or a range of dates, makes an all-day event; the end
+ * date given is the last day, which Google stores as the day after. Times
+ * are sent with their time zone's offset and name.
+ */
+export const createEventTimes = (
+  startInput: string,
+  endInput?: string,
+  options: EventTimeOptions = {}
+): { start: EventDateTime; end: EventDateTime } => {
+  const start = parseDateExpression(startInput, {
+    timeZone: options.startTimeZone,
+  });
+  const startTimeZone =
+    options.startTimeZone || start.timeZone || getLocalTimeZone();
+  const end = endInput
+    ? parseDateExpression(endInput, {
+        timeZone: options.endTimeZone || startTimeZone,
+        defaultDate: start.date,
+      })
+    : undefined;
+  const allDay = options.allDay ?? (start.allDay && (!end || end.allDay));
+  const duration = options.defaultDurationMinutes;
 
-  // Try to parse as ISO date or other standard formats
-  const date = new Date(dateTimeString);
-  if (!isNaN(date.getTime())) {
-    return date.toISOString();
+  if (allDay) {
+    let endDate: string;
+    if (end) endDate = addDaysToDate(end.date, 1);
+    else if (start.endDate)
+      endDate = start.allDay ? start.endDate : addDaysToDate(start.endDate, 1);
+    else
+      endDate = addDaysToDate(
+        start.date,
+        Math.max(1, Math.round((duration || 0) / (24 * 60)))
+      );
+    if (endDate <= start.date)
+      throw new Error("The event must end on or after the day it starts");
+    return {
+      start: { date: start.date, dateTime: null, timeZone: null },
+      end: { date: endDate, dateTime: null, timeZone: null },
+    };
   }
 
-  // If all else fails, return current time
-  return new Date().toISOString();
+  if (start.allDay && options.allDay === false)
+    throw new Error(
+      `"${startInput}" has no time of day; give a start time for a timed event`
+    );
+  const endTime =
+    end?.start ||
+    start.end ||
+    new Date(start.start.getTime() + (duration || 60) * 60 * 1000);
+  if (endTime.getTime() <= start.start.getTime())
+    throw new Error("The event must end after it starts");
+  const endTimeZone = options.endTimeZone || end?.timeZone || startTimeZone;
+  return {
+    start: {
+      dateTime: formatZonedIso(start.start, startTimeZone),
+      timeZone: startTimeZone,
+      date: null,
+    },
+    end: {
+      dateTime: formatZonedIso(endTime, endTimeZone),
+      timeZone: endTimeZone,
+      date: null,
+    },
+  };
 };
 
-export const formatEventDateTime = (
-  dateTime: EventDateTime | null | undefined
-): string => {
-  if (!dateTime) return "";
-  return dateTime.dateTime || dateTime.date || "";
+/** Attendees with their RSVP: needsAction, accepted, declined or tentative. */
+export const summarizeAttendees = (attendees?: EventAttendee[]) =>
+  (attendees || []).map((attendee) => ({
+    email: attendee.email,
+    responseStatus: attendee.responseStatus,
+    comment: attendee.comment || undefined,
+    optional: attendee.optional || undefined,
+    organizer: attendee.organizer || undefined,
+    self: attendee.self || undefined,
+  }));
+
+export const getMeetLink = (event: CalendarEvent) =>
+  event.hangoutLink ||
+  event.conferenceData?.entryPoints?.find(
+    (entryPoint) => entryPoint.entryPointType === "video"
+  )?.uri ||
+  undefined;
+
+/**
+ * Conference data asking Google to create a Meet link. Requests need
+ * `conferenceDataVersion: 1`; the request ID makes retries idempotent.
+ */
+export const createMeetRequest = (): calendar_v3.Schema$ConferenceData => ({
+  createRequest: {
+    requestId: randomUUID(),
+    conferenceSolutionKey: { type: "hangoutsMeet" },
+  },
+});
+
+/**
+ * The event fields the calendar tools return, with times converted into
+ * `timeZone` when given.
+ */
+export const summarizeEvent = (data: CalendarEvent, timeZone?: string) => ({
+  id: data.id,
+  summary: data.summary,
+  description: data.description,
+  location: data.location,
+  start: formatEventDateTime(data.start, timeZone),
+  end: formatEventDateTime(data.end, timeZone),
+  allDay: !!data.start?.date,
+  attendees: summarizeAttendees(data.attendees),
+  meetLink: getMeetLink(data),
+  link: data.htmlLink,
+  recurrence: data.recurrence || undefined,
+  recurringEventId: data.recurringEventId || undefined,
+});
+
+export type NewEvent = {
+  summary: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  description?: string;
+  location?: string;
+  attendees?: EventAttendee[];
+  calendarId?: string;
+  recurrence?: string[];
+  addGoogleMeet?: boolean;
 };
 
-export const createEventDateTime = (dateTimeString: string): EventDateTime => {
-  const isoString = parseDateTime(dateTimeString);
-  return {
-    dateTime: isoString,
-    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+/**
+ * Inserts an event and notifies its attendees. Shared by
+ * `calendar_create_event` and the slot finder's booking step.
+ */
+export const createEvent = async (
+  calendar: calendar_v3.Calendar,
+  {
+    summary,
+    start,
+    end,
+    description,
+    location,
+    attendees,
+    calendarId = "primary",
+    recurrence,
+    addGoogleMeet,
+  }: NewEvent
+) => {
+  const event: CalendarEvent = {
+    summary,
+    description: description || "",
+    location: location || "",
+    start,
+    end,
   };
+
+  // Add attendees if provided
+  if (attendees && attendees.length > 0) {
+    event.attendees = attendees;
+  }
+  if (recurrence?.length) event.recurrence = recurrence;
+  if (addGoogleMeet) event.conferenceData = createMeetRequest();
+
+  const { data } = await calendar.events.insert({
+    calendarId,
+    requestBody: event,
+    sendUpdates: "all",
+    conferenceDataVersion: 1,
+  });
+
+  return summarizeEvent(data);
 };
@@ -0,0 +1,193 @@
+// RFC 2045 / 2047 / 2231 encoders used when composing outgoing messages
+
+const MAX_LINE_LENGTH = 76;
+const MAX_HEADER_LENGTH = 78;
+const MAX_ENCODED_WORD_LENGTH = 75;
+const ENCODED_WORD_PREFIX = "=?UTF-8?B?";
+const ENCODED_WORD_SUFFIX = "?=";
+
+// Characters that force a display name to be sent as an RFC 5322 quoted-string
+const SPECIALS_REGEX = /[()<>\[\]:;@\\,."]/;
+
+export const isAscii = (value: string) => /^[\x00-\x7f]*$/.test(value);
+
+const toHex = (byte: number) =>
+  "=" + byte.toString(16).toUpperCase().padStart(2, "0");
+
+const encodeQuotedPrintableLine = (line: string): string => {
+  const bytes = Buffer.from(line, "utf-8");
+  const tokens: string[] = [];
+
+  bytes.forEach((byte, index) => {
+    const isLast = index === bytes.length - 1;
+    const isWhitespace = byte === 0x20 || byte === 0x09;
+    const isPrintable = byte >= 0x21 && byte <= 0x7e && byte !== 0x3d;
+
+    if (isPrintable || (isWhitespace && !isLast)) {
+      tokens.push(String.fromCharCode(byte));
+    } else {
+      // Trailing whitespace must be encoded or transports may strip it
+      tokens.push(toHex(byte));
+    }
+  });
+
+  const lines: string[] = [];
+  let current = "";
+  for (const token of tokens) {
+    // Reserve one column for the "=" soft line break marker
+    if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+      lines.push(current + "=");
+      current = "";
+    }
+    current += token;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n");
+};
+
+/**
+ * Encodes text as RFC 2045 quoted-printable. Line breaks in the input become
+ * hard CRLF breaks, long lines get soft "=" breaks, and "=", control
+ * characters and non-ASCII UTF-8 bytes are escaped.
+ */
+export const encodeQuotedPrintable = (text: string): string =>
+  text.split(/\r?\n/).map(encodeQuotedPrintableLine).join("\r\n");
+
+/**
+ * Encodes a header value as RFC 2047 base64 encoded-words when it contains
+ * non-ASCII characters. Words are split on character boundaries so no UTF-8
+ * sequence is cut in half, and each word stays within 75 characters.
+ */
+export const encodeHeaderValue = (value: string): string => {
+  if (isAscii(value)) return value;
+
+  const maxBytes =
+    Math.floor(
+      (MAX_ENCODED_WORD_LENGTH -
+        ENCODED_WORD_PREFIX.length -
+        ENCODED_WORD_SUFFIX.length) /
+        4
+    ) * 3;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char, "utf-8") > maxBytes) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words
+    .map(
+      (word) =>
+        ENCODED_WORD_PREFIX +
+        Buffer.from(word, "utf-8").toString("base64") +
+        ENCODED_WORD_SUFFIX
+    )
+    .join("\r\n ");
+};
+
+/**
+ * Encodes a single address of the form `Display Name <user@example.com>`.
+ * Non-ASCII display names become encoded-words, ASCII names containing
+ * specials are quoted, and bare addresses are returned unchanged.
+ */
+export const encodeAddress = (address: string): string => {
+  const trimmed = address.trim();
+  const match = trimmed.match(/^(.*?)\s*<([^>]+)>$/);
+  if (!match) return trimmed;
+
+  const displayName = match[1].trim().replace(/^"(.*)"$/, "$1");
+  const email = match[2].trim();
+  if (!displayName) return `<${email}>`;
+
+  if (!isAscii(displayName))
+    return `${encodeHeaderValue(displayName)} <${email}>`;
+  if (SPECIALS_REGEX.test(displayName))
+    return `"${displayName.replace(/(["\\])/g, "\\$1")}" <${email}>`;
+  return `${displayName} <${email}>`;
+};
+
+/**
+ * Folds a header onto continuation lines at whitespace so no line exceeds 78
+ * characters where a break is possible. Encoded-words and address lists
+ * already contain CRLF-space breaks, which are kept as they are.
+ */
+export const foldHeader = (name: string, value: string): string => {
+  const lines: string[] = [];
+
+  for (const [index, segment] of value.split(/\r\n /).entries()) {
+    let current = index === 0 ? `${name}: ` : " ";
+    // The header name line may be left bare when the first word won't fit
+    let started = index > 0;
+    for (const word of segment.split(/(?<=\s)(?=\S)/)) {
+      if (
+        (started || index === 0) &&
+        current.length + word.trimEnd().length > MAX_HEADER_LENGTH
+      ) {
+        lines.push(current.trimEnd());
+        current = " ";
+      }
+      current += word;
+      started = true;
+    }
+    lines.push(current.trimEnd());
+  }
+
+  return lines.join("\r\n");
+};
+
+/**
+ * Encodes each address and joins them into a header line, starting a new
+ * continuation line whenever the next address would overflow 78 characters.
+ */
+export const formatAddressHeader = (name: string, addresses: string[]) => {
+  const encoded = addresses.filter((a) => a.trim()).map(encodeAddress);
+  const lines: string[] = [];
+  let current = `${name}: `;
+
+  encoded.forEach((address, index) => {
+    const item = index < encoded.length - 1 ? `${address},` : address;
+    const firstLine = item.split("\r\n")[0];
+    if (
+      index > 0 &&
+      current.length + 1 + firstLine.length > MAX_HEADER_LENGTH
+    ) {
+      lines.push(current);
+      current = " ";
+    } else if (index > 0) {
+      current += " ";
+    }
+    const itemLines = item.split("\r\n");
+    current += itemLines[0];
+    for (const continuation of itemLines.slice(1)) {
+      lines.push(current);
+      current = continuation;
+    }
+  });
+  lines.push(current);
+
+  return lines.join("\r\n");
+};
+
+/**
+ * Formats a MIME parameter such as `filename` or `name`. ASCII values are
+ * sent as a quoted-string; anything else uses the RFC 2231 extended form
+ * with an RFC 2047 fallback for clients that only understand encoded-words.
+ */
+export const formatMimeParameter = (name: string, value: string): string => {
+  const sanitized = value.replace(/[\r\n]/g, " ");
+  if (isAscii(sanitized))
+    return `${name}="${sanitized.replace(/(["\\])/g, "\\$1")}"`;
+
+  const extended = encodeURIComponent(sanitized).replace(
+    /['()*!]/g,
+    (char) => "%" + char.charCodeAt(0).toString(16).toUpperCase()
+  );
+  const fallback = encodeHeaderValue(sanitized).replace(/\r\n /g, " ");
+  return `${name}="${fallback}"; ${name}*=UTF-8''${extended}`;
+};
@@ -0,0 +1,53 @@
+// Minimal {{placeholder}} templates shared by mail merge and saved templates
+
+// {{name}} or {{name|fallback}}; names may contain spaces, e.g. {{First Name}}
+const PLACEHOLDER_REGEX = /\{\{\s*([^{}|]+?)\s*(?:\|\s*([^{}]*?)\s*)?\}\}/g;
+
+export type TemplateValues = Record<string, unknown>;
+
+export type RenderedTemplate = {
+  text: string;
+  missing: string[];
+};
+
+export const findPlaceholders = (template: string) => [
+  ...new Set(
+    [...template.matchAll(PLACEHOLDER_REGEX)].map((match) => match[1])
+  ),
+];
+
+const lookup = (values: TemplateValues, name: string) => {
+  // Own keys only, so {{constructor}} never renders Object.prototype members
+  if (Object.hasOwn(values, name)) return values[name];
+  const key = Object.keys(values).find(
+    (k) => k.toLowerCase() === name.toLowerCase()
+  );
+  return key === undefined ? undefined : values[key];
+};
+
+/**
+ * Replaces each placeholder with its value, matching names exactly first
+ * and case-insensitively second. Placeholders without a value (and without
+ * a fallback) are left empty and reported in `missing`. `escape` is applied
+ * to values, e.g. to insert them into HTML.
+ */
+export const renderTemplate = (
+  template: string,
+  values: TemplateValues,
+  escape: (value: string) => string = (value) => value
+): RenderedTemplate => {
+  const missing = new Set<string>();
+  const text = template.replace(
+    PLACEHOLDER_REGEX,
+    (_, name: string, fallback?: string) => {
+      const value = lookup(values, name);
+      if (value === undefined || value === null || value === "") {
+        if (fallback !== undefined) return fallback;
+        missing.add(name);
+        return "";
+      }
+      return escape(String(value));
+    }
+  );
+  return { text, missing: [...missing] };
+};
@@ -0,0 +1,138 @@
+// Wall-clock time <-> instant conversions for IANA time zones using Intl only
+
+export type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+};
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getLocalTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const assertTimeZone = (timeZone: string) => {
+  if (!isValidTimeZone(timeZone))
+    throw new Error(
+      `Unknown time zone "${timeZone}", use an IANA name like Europe/Berlin`
+    );
+  return timeZone;
+};
+
+/** The wall-clock date and time of an instant in a time zone. */
+export const getZonedParts = (
+  date: Date | number,
+  timeZone: string
+): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date))
+    parts[part.type] = part.value;
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+};
+
+/** Offset of the time zone from UTC at an instant, in milliseconds. */
+export const getTimeZoneOffset = (date: Date | number, timeZone: string) => {
+  const time = typeof date === "number" ? date : date.getTime();
+  const parts = getZonedParts(time, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - (time - (time % 1000));
+};
+
+/**
+ * The instant at which clocks in `timeZone` show the given wall time. Times
+ * skipped by a DST change resolve to the later offset, and times that occur
+ * twice to the first occurrence.
+ */
+export const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+) => {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset can differ on either side of a DST change, so try both
+  const first = wallTime - getTimeZoneOffset(wallTime, timeZone);
+  const second = wallTime - getTimeZoneOffset(first, timeZone);
+  const matching = [first, second].filter(
+    (time) => time + getTimeZoneOffset(time, timeZone) === wallTime
+  );
+  return new Date(
+    matching.length ? Math.min(...matching) : Math.max(first, second)
+  );
+};
+
+/** Formats an instant as ISO 8601 with the time zone's offset, e.g. +02:00. */
+export const formatZonedIso = (date: Date | number, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const offset = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  const sign = offset < 0 ? "-" : "+";
+  return (
+    `${pad(parts.year, 4)}-${pad(parts.month)}-${pad(parts.day)}` +
+    `T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(
+      Math.abs(offset) % 60
+    )}`
+  );
+};
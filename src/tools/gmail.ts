@@ -1,22 +1,323 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ServerNotification,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { gmail_v1 } from "googleapis";
 import {
   handleTool,
   formatResponse,
   constructRawMessage,
+  constructResponseMessage,
+  sendDraft,
+  digestThread,
+  formatDigest,
+  getFilterCriteriaFromMessage,
   processMessagePart,
+  RESPONSE_HEADERS_LIST,
+  listAllMessageIds,
+  ensureLabels,
+  chunkArray,
+  BULK_ACTION_LABELS,
+  GMAIL_BATCH_LIMIT,
   Draft,
   DraftCreateParams,
   Message,
   MessageSendParams,
   Thread,
+  BulkAction,
 } from "../modules/gmail.js";
+import {
+  getCacheStatus,
+  getCachedMessage,
+  isMessageCached,
+  listCachedMessages,
+  syncGmailCache,
+} from "../modules/gmail-cache.js";
+import { searchLocalMessages } from "../modules/gmail-search.js";
+import {
+  classifyMessage,
+  DEFAULT_TRIAGE_LABEL_PREFIX,
+  TRIAGE_BUCKETS,
+  TRIAGE_LABEL_NAMES,
+  TriageBucket,
+  TriageResult,
+} from "../modules/gmail-triage.js";
+import {
+  listSubscriptions,
+  unsubscribe,
+} from "../modules/gmail-subscriptions.js";
+import {
+  getAttachmentsDir,
+  saveMessageAttachments,
+  SavedAttachment,
+} from "../modules/gmail-attachments.js";
+import {
+  cancelScheduledJob,
+  readScheduledJobs,
+  scheduleDraft,
+  scheduleMailMerge,
+  snoozeThread,
+  startGmailScheduler,
+  SNOOZED_LABEL_NAME,
+} from "../modules/gmail-scheduler.js";
+import {
+  createNudgeDraft,
+  findAwaitingReply,
+} from "../modules/gmail-followup.js";
+import {
+  createMergeJob,
+  MERGE_BATCH_SIZE,
+  MergeJob,
+  previewMailMerge,
+  readMergeJob,
+  runMergeJob,
+  summarizeMergeJob,
+} from "../modules/gmail-merge.js";
+import {
+  deleteTemplate,
+  getTemplate,
+  listTemplates,
+  renderEmailTemplate,
+  saveTemplate,
+} from "../modules/gmail-templates.js";
+import {
+  collectMailboxAnalytics,
+  formatAnalyticsMarkdown,
+} from "../modules/gmail-analytics.js";
+import { exportMessages, importMessages } from "../modules/gmail-archive.js";
+import {
+  getWatchReceiverConfig,
+  readWatchState,
+  startGmailWatch,
+  startWatch,
+  stopWatch,
+  WATCH_RESOURCE_URI,
+} from "../modules/gmail-watch.js";
+
+const attachmentSchema = z.object({
+  path: z
+    .string()
+    .optional()
+    .describe("Absolute path of a local file to attach"),
+  data: z
+    .string()
+    .optional()
+    .describe("Base64 encoded file content, used when no path is given"),
+  filename: z
+    .string()
+    .optional()
+    .describe(
+      "File name shown to the recipient, required when data is provided"
+    ),
+  mimeType: z
+    .string()
+    .optional()
+    .describe("MIME type of the file, guessed from the file name if omitted"),
+  contentId: z
+    .string()
+    .optional()
+    .describe(
+      "Content-ID used to reference an inline image from the HTML body as cid:<contentId>"
+    ),
+});
+
+const sendAsSchema = {
+  from: z
+    .string()
+    .optional()
+    .describe(
+      "Send-as alias email address to send from, see gmail_list_send_as (defaults to the primary address)"
+    ),
+  includeSignature: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether to append the signature of the from alias to the body (default: true)"
+    ),
+};
+
+const responseBodySchema = {
+  body: z
+    .string()
+    .optional()
+    .describe("The plain text body written above the quoted message"),
+  htmlBody: z
+    .string()
+    .optional()
+    .describe("The HTML body, sent alongside the plain text body"),
+  attachments: z
+    .array(attachmentSchema)
+    .optional()
+    .describe(
+      "Additional files to attach, given as local paths or base64 data"
+    ),
+  bcc: z
+    .array(z.string())
+    .optional()
+    .describe("List of BCC recipient email addresses"),
+  ...sendAsSchema,
+  draft: z
+    .boolean()
+    .optional()
+    .describe("Save the message as a draft instead of sending it"),
+  includeBodyHtml: z
+    .boolean()
+    .optional()
+    .describe(
+      "Whether to include the parsed HTML in the return for each body, excluded by default because they can be excessively large"
+    ),
+};
+
+const sendOrSaveDraft = async (
+  gmail: gmail_v1.Gmail,
+  raw: string,
+  threadId: string | undefined,
+  draft = false,
+  includeBodyHtml = false
+) => {
+  if (draft) {
+    const { data } = await gmail.users.drafts.create({
+      userId: "me",
+      requestBody: { message: { raw, threadId } },
+    });
+    if (data.message?.payload) {
+      data.message.payload = processMessagePart(
+        data.message.payload,
+        includeBodyHtml
+      );
+    }
+    return data;
+  }
+
+  const { data } = await gmail.users.messages.send({
+    userId: "me",
+    requestBody: { raw, threadId },
+  });
+  if (data.payload) {
+    data.payload = processMessagePart(data.payload, includeBodyHtml);
+  }
+  return data;
+};
+
+const filterActionSchema = {
+  addLabelIds: z
+    .array(z.string())
+    .optional()
+    .describe("Label IDs to add to matching messages"),
+  removeLabelIds: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Label IDs to remove from matching messages, e.g. INBOX to archive or UNREAD to mark read"
+    ),
+  forward: z
+    .string()
+    .optional()
+    .describe(
+      "Email address to forward matching messages to, must be a verified forwarding address"
+    ),
+};
+
+/**
+ * Error handling for tools that only touch local files and need no Gmail
+ * client, mirroring `handleTool`.
+ */
+const handleLocalTool = async (apiCall: () => unknown): Promise<any> => {
+  try {
+    return formatResponse(await apiCall());
+  } catch (error: any) {
+    return formatResponse({ error: `Tool execution failed: ${error.message}` });
+  }
+};
+
+type ProgressExtra = {
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+};
+
+const reportProgress = async (
+  extra: ProgressExtra,
+  progress: number,
+  total: number | undefined,
+  message: string
+) => {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+
+  await extra.sendNotification({
+    method: "notifications/progress",
+    params: { progressToken, progress, total, message },
+  });
+};
+
+// Resource URIs each server's client subscribed to
+const resourceSubscriptions = new WeakMap<McpServer, Set<string>>();
+
+/**
+ * Exposes mail delivered through `gmail_watch_mailbox` as a resource that
+ * clients can subscribe to.
+ */
+const registerWatchResource = (
+  server: McpServer,
+  config?: Record<string, any>
+) => {
+  server.resource(
+    "gmail_new_mail",
+    WATCH_RESOURCE_URI,
+    {
+      description:
+        "Most recent new messages reported by the Gmail mailbox watch, newest first",
+      mimeType: "application/json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(readWatchState()?.recentMessages || [], null, 2),
+        },
+      ],
+    })
+  );
+
+  const subscriptions = new Set<string>();
+  resourceSubscriptions.set(server, subscriptions);
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+};
+
+/**
+ * Starts the scheduled job runner and the mailbox watch. Called once the
+ * server is connected; registering the tools starts nothing by itself.
+ * Subscribers of the new mail resource get resources/updated on new mail.
+ */
+export const startGmailBackgroundTasks = (
+  server: McpServer,
+  config?: Record<string, any>
+) => {
+  startGmailScheduler(config);
+  startGmailWatch(config, async () => {
+    if (resourceSubscriptions.get(server)?.has(WATCH_RESOURCE_URI))
+      await server.server.sendResourceUpdated({ uri: WATCH_RESOURCE_URI });
+  });
+};
 
 export function registerGmailTools(
   server: McpServer,
   config?: Record<string, any>
 ) {
+  registerWatchResource(server, config);
+
   server.tool(
     "gmail_create_draft",
     "Create a draft email in Gmail. Note the mechanics of the raw parameter.",
@@ -25,7 +326,7 @@ export function registerGmailTools(
         .string()
         .optional()
         .describe(
-          "The entire email message in base64url encoded RFC 2822 format, ignores params.to, cc, bcc, subject, body, includeBodyHtml if provided"
+          "The entire email message in base64url encoded RFC 2822 format, ignores params.to, cc, bcc, subject, body, htmlBody, attachments, inlineImages if provided"
         ),
       threadId: z
         .string()
@@ -44,7 +345,24 @@ export function registerGmailTools(
         .optional()
         .describe("List of BCC recipient email addresses"),
       subject: z.string().optional().describe("The subject of the email"),
-      body: z.string().optional().describe("The body of the email"),
+      body: z.string().optional().describe("The plain text body of the email"),
+      htmlBody: z
+        .string()
+        .optional()
+        .describe(
+          "The HTML body of the email, sent alongside the plain text body as multipart/alternative"
+        ),
+      attachments: z
+        .array(attachmentSchema)
+        .optional()
+        .describe("Files to attach, given as local paths or base64 data"),
+      inlineImages: z
+        .array(attachmentSchema)
+        .optional()
+        .describe(
+          "Images embedded in the HTML body, each needs a contentId referenced as cid:<contentId>"
+        ),
+      ...sendAsSchema,
       includeBodyHtml: z
         .boolean()
         .optional()
@@ -201,21 +519,102 @@ export function registerGmailTools(
     async (params) => {
       return handleTool(config, async (gmail: gmail_v1.Gmail) => {
         try {
-          const { data } = await gmail.users.drafts.send({
-            userId: "me",
-            requestBody: { id: params.id },
-          });
-          return formatResponse(data);
-        } catch (error) {
-          return formatResponse({
-            error:
-              "Error sending draft, are you sure you have at least one recipient?",
-          });
+          return formatResponse(await sendDraft(gmail, params.id));
+        } catch (error: any) {
+          return formatResponse({ error: error.message });
         }
       });
     }
   );
 
+  server.tool(
+    "gmail_schedule_send",
+    "Schedule an existing draft (see gmail_create_draft) to be sent at a later time. The schedule is stored locally and the draft is sent by this server, so it must be running at or after the chosen time; overdue drafts are sent on the next start.",
+    {
+      draftId: z.string().describe("The ID of the draft to send"),
+      sendAt: z
+        .string()
+        .describe(
+          "When to send, as an ISO 8601 date-time with offset, e.g. 2024-05-01T09:00:00+02:00"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        return formatResponse(
+          await scheduleDraft(gmail, params.draftId, params.sendAt)
+        );
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_snooze_thread",
+    `Snooze a thread: archive it with the "${SNOOZED_LABEL_NAME}" label and move it back to the inbox at the given time`,
+    {
+      threadId: z.string().describe("The ID of the thread to snooze"),
+      until: z
+        .string()
+        .describe(
+          "When the thread returns to the inbox, as an ISO 8601 date-time with offset"
+        ),
+      markUnread: z
+        .boolean()
+        .optional()
+        .describe(
+          "Mark the thread unread when it returns to the inbox (default: true)"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        return formatResponse(
+          await snoozeThread(
+            gmail,
+            params.threadId,
+            params.until,
+            params.markUnread
+          )
+        );
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_list_scheduled",
+    "List scheduled sends, snoozed threads and mail merges sending in the background, soonest first",
+    {
+      status: z
+        .enum(["pending", "running", "done", "failed", "cancelled"])
+        .optional()
+        .describe("Only list jobs with this status (default: all)"),
+      type: z
+        .enum(["send_draft", "unsnooze", "mail_merge"])
+        .optional()
+        .describe("Only list scheduled sends, snoozes or mail merges"),
+    },
+    async (params) => {
+      return handleLocalTool(() => {
+        const jobs = readScheduledJobs()
+          .filter((job) => !params.status || job.status === params.status)
+          .filter((job) => !params.type || job.type === params.type)
+          .sort((a, b) => a.runAt.localeCompare(b.runAt));
+        return { jobs, total: jobs.length };
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_cancel_scheduled",
+    "Cancel a pending scheduled send or snooze. A cancelled snooze returns the thread to the inbox immediately; a cancelled send leaves the draft in Drafts.",
+    {
+      id: z.string().describe("The ID of the scheduled job"),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        return formatResponse(await cancelScheduledJob(gmail, params.id));
+      });
+    }
+  );
+
   server.tool(
     "gmail_create_label",
     "Create a new label",
@@ -429,6 +828,114 @@ export function registerGmailTools(
     }
   );
 
+  server.tool(
+    "gmail_bulk_apply",
+    "Apply label changes or an action to every message matching a Gmail search query. Pages through all results and modifies them in batches of 1000. Use dryRun to only count the matches first.",
+    {
+      q: z
+        .string()
+        .describe(
+          "Gmail search query selecting the messages, same format as the Gmail search box"
+        ),
+      addLabelIds: z
+        .array(z.string())
+        .optional()
+        .describe("A list of label IDs to add to the messages"),
+      removeLabelIds: z
+        .array(z.string())
+        .optional()
+        .describe("A list of label IDs to remove from the messages"),
+      action: z
+        .enum(["archive", "trash", "markRead", "markUnread"])
+        .optional()
+        .describe("A common action to apply in addition to the label changes"),
+      includeSpamTrash: z
+        .boolean()
+        .optional()
+        .describe("Include messages from SPAM and TRASH in the results"),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe("Stop after this many matching messages"),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe("Only count the matching messages without modifying them"),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const action: BulkAction | undefined = params.action;
+        const actionLabels = action ? BULK_ACTION_LABELS[action] : {};
+        const addLabelIds = [
+          ...(params.addLabelIds || []),
+          ...(actionLabels.addLabelIds || []),
+        ];
+        const removeLabelIds = [
+          ...(params.removeLabelIds || []),
+          ...(actionLabels.removeLabelIds || []),
+        ];
+
+        if (!params.dryRun && !addLabelIds.length && !removeLabelIds.length)
+          return formatResponse({
+            error: "Provide addLabelIds, removeLabelIds or an action to apply",
+          });
+
+        const ids = await listAllMessageIds(
+          gmail,
+          {
+            q: params.q,
+            includeSpamTrash: params.includeSpamTrash,
+            maxMessages: params.maxMessages,
+          },
+          (count) => {
+            const found = Math.min(count, params.maxMessages || count);
+            return reportProgress(
+              extra,
+              found,
+              undefined,
+              `Found ${found} messages`
+            );
+          }
+        );
+
+        // Each message counts once when found and once when modified, so
+        // progress keeps growing from the listing into the batches
+        const total = ids.length * 2;
+
+        const batches = chunkArray(ids, GMAIL_BATCH_LIMIT);
+        const progress: string[] = [];
+        let modified = 0;
+
+        if (!params.dryRun) {
+          for (const [index, batch] of batches.entries()) {
+            await gmail.users.messages.batchModify({
+              userId: "me",
+              requestBody: { ids: batch, addLabelIds, removeLabelIds },
+            });
+            modified += batch.length;
+
+            const message = `Batch ${index + 1}/${batches.length}: modified ${
+              batch.length
+            } messages`;
+            progress.push(message);
+            await reportProgress(extra, ids.length + modified, total, message);
+          }
+        }
+
+        return formatResponse({
+          query: params.q,
+          dryRun: !!params.dryRun,
+          matched: ids.length,
+          modified,
+          batches: batches.length,
+          addLabelIds,
+          removeLabelIds,
+          progress,
+        });
+      });
+    }
+  );
+
   server.tool(
     "gmail_delete_message",
     "Immediately and permanently delete a message",
@@ -457,8 +964,44 @@ export function registerGmailTools(
         .describe(
           "Whether to include the parsed HTML in the return for each body, excluded by default because they can be excessively large"
         ),
+      includeHeaders: z
+        .array(z.string())
+        .optional()
+        .describe(
+          'Extra headers to return besides Date, From, To, Subject and the threading headers, e.g. ["List-Unsubscribe"]; use ["*"] for every header'
+        ),
+      useCache: z
+        .boolean()
+        .optional()
+        .describe(
+          "Read the message from the local cache (see gmail_sync_cache), falling back to the API when it is not cached"
+        ),
     },
     async (params) => {
+      const headerNames = params.includeHeaders?.includes("*")
+        ? null
+        : [...RESPONSE_HEADERS_LIST, ...(params.includeHeaders || [])];
+
+      const withProcessedPayload = (message: gmail_v1.Schema$Message) => {
+        if (message.payload) {
+          message.payload = processMessagePart(
+            message.payload,
+            params.includeBodyHtml,
+            headerNames
+          );
+        }
+        return message;
+      };
+
+      if (params.useCache && isMessageCached(params.id)) {
+        return handleLocalTool(() => {
+          const cached = getCachedMessage(params.id);
+          if (!cached)
+            throw new Error(`Cached message ${params.id} could not be read`);
+          return withProcessedPayload(cached);
+        });
+      }
+
       return handleTool(config, async (gmail: gmail_v1.Gmail) => {
         const { data } = await gmail.users.messages.get({
           userId: "me",
@@ -466,14 +1009,7 @@ export function registerGmailTools(
           format: "full",
         });
 
-        if (data.payload) {
-          data.payload = processMessagePart(
-            data.payload,
-            params.includeBodyHtml
-          );
-        }
-
-        return formatResponse(data);
+        return formatResponse(withProcessedPayload(data));
       });
     }
   );
@@ -514,12 +1050,35 @@ export function registerGmailTools(
         .describe(
           "Whether to include the parsed HTML in the return for each body, excluded by default because they can be excessively large"
         ),
+      useCache: z
+        .boolean()
+        .optional()
+        .describe(
+          "List message summaries from the local cache (see gmail_sync_cache) instead of the API. Only labelIds, maxResults and a pageToken from an earlier cached listing apply; queries with q always go to the API"
+        ),
     },
     async (params) => {
+      const { useCache, ...listParams } = params;
+      if (useCache && !listParams.q) {
+        return handleLocalTool(() => {
+          const { messages, total, nextPageToken } = listCachedMessages({
+            labelIds: listParams.labelIds,
+            maxResults: listParams.maxResults,
+            pageToken: listParams.pageToken,
+          });
+          return {
+            messages,
+            resultSizeEstimate: total,
+            nextPageToken,
+            source: "cache",
+          };
+        });
+      }
+
       return handleTool(config, async (gmail: gmail_v1.Gmail) => {
         const { data } = await gmail.users.messages.list({
           userId: "me",
-          ...params,
+          ...listParams,
         });
 
         if (data.messages) {
@@ -539,6 +1098,818 @@ export function registerGmailTools(
     }
   );
 
+  server.tool(
+    "gmail_sync_cache",
+    "Update the local message cache. The first run stores messages matching initialQuery; later runs fetch only the changes since the last sync through the mailbox history.",
+    {
+      initialQuery: z
+        .string()
+        .optional()
+        .describe(
+          "Gmail search query selecting the messages stored by a full sync (default: newer_than:90d)"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe(
+          "Maximum number of messages stored by a full sync (default: 1000)"
+        ),
+      reset: z
+        .boolean()
+        .optional()
+        .describe("Discard the cache and run a full sync"),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const result = await syncGmailCache(gmail, params);
+        return formatResponse({ ...result, status: getCacheStatus() });
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_sync_status",
+    "Get the state of the local message cache: last sync time, stored history ID and number of cached messages",
+    {},
+    async () => {
+      return handleLocalTool(() => getCacheStatus());
+    }
+  );
+
+  server.tool(
+    "gmail_local_search",
+    "Ranked full-text search over the locally cached messages (see gmail_sync_cache). Works offline, tolerates typos and partial words, and returns highlighted snippets.",
+    {
+      query: z
+        .string()
+        .describe(
+          "Free-text search terms matched against subject, sender and body"
+        ),
+      from: z
+        .string()
+        .optional()
+        .describe("Only match messages whose From header contains this text"),
+      after: z
+        .string()
+        .optional()
+        .describe("Only match messages received on or after this date"),
+      before: z
+        .string()
+        .optional()
+        .describe("Only match messages received before this date"),
+      label: z
+        .string()
+        .optional()
+        .describe("Only match messages with this label ID"),
+      hasAttachment: z
+        .boolean()
+        .optional()
+        .describe(
+          "Only match messages with (true) or without (false) attachments"
+        ),
+      maxResults: z
+        .number()
+        .optional()
+        .describe("Maximum number of results to return (default: 20)"),
+      sync: z
+        .boolean()
+        .optional()
+        .describe("Sync the local cache with Gmail before searching"),
+      rebuild: z
+        .boolean()
+        .optional()
+        .describe("Rebuild the search index from the cache before searching"),
+    },
+    async (params) => {
+      const { query, maxResults, sync, rebuild, ...filters } = params;
+      const search = () =>
+        handleLocalTool(() =>
+          searchLocalMessages(query, filters, { maxResults, rebuild })
+        );
+
+      if (!sync) return search();
+
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        await syncGmailCache(gmail);
+        return search();
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_triage_inbox",
+    "Sort unread inbox messages into buckets: needs_reply, fyi, newsletter, transaction (receipts and orders), calendar_invite and notification. Uses headers such as List-Unsubscribe and Precedence, the sender domain, calendar attachments and cues in the body. Optionally labels each message with its bucket.",
+    {
+      q: z
+        .string()
+        .optional()
+        .describe(
+          "Gmail search query selecting the messages to triage (default: is:unread in:inbox)"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe("Maximum number of messages to triage (default: 50)"),
+      applyLabels: z
+        .boolean()
+        .optional()
+        .describe(
+          "Add a label per bucket to the messages, creating the labels if needed (default: false)"
+        ),
+      labelPrefix: z
+        .string()
+        .optional()
+        .describe(
+          `Parent label for the bucket labels (default: ${DEFAULT_TRIAGE_LABEL_PREFIX})`
+        ),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data: profile } = await gmail.users.getProfile({
+          userId: "me",
+        });
+        const { data: sendAs } = await gmail.users.settings.sendAs.list({
+          userId: "me",
+        });
+        const ownAddresses = [
+          profile.emailAddress || "",
+          ...(sendAs.sendAs || []).map((alias) => alias.sendAsEmail || ""),
+        ].filter((address) => address);
+
+        const ids = await listAllMessageIds(gmail, {
+          q: params.q ?? "is:unread in:inbox",
+          maxMessages: params.maxMessages ?? 50,
+        });
+
+        const results: TriageResult[] = [];
+        for (const batch of chunkArray(ids, 10)) {
+          const messages = await Promise.all(
+            batch.map(async (id) => {
+              const { data } = await gmail.users.messages.get({
+                userId: "me",
+                id,
+                format: "full",
+              });
+              return data;
+            })
+          );
+          results.push(
+            ...messages.map((message) => classifyMessage(message, ownAddresses))
+          );
+          await reportProgress(
+            extra,
+            results.length,
+            ids.length,
+            `Classified ${results.length} of ${ids.length} messages`
+          );
+        }
+
+        const prefix = params.labelPrefix ?? DEFAULT_TRIAGE_LABEL_PREFIX;
+        const labelName = (bucket: TriageBucket) =>
+          prefix
+            ? `${prefix}/${TRIAGE_LABEL_NAMES[bucket]}`
+            : TRIAGE_LABEL_NAMES[bucket];
+        const labelIds = params.applyLabels
+          ? await ensureLabels(
+              gmail,
+              TRIAGE_BUCKETS.filter((bucket) =>
+                results.some((result) => result.bucket === bucket)
+              ).map(labelName)
+            )
+          : {};
+
+        const buckets: Record<string, unknown> = {};
+        for (const bucket of TRIAGE_BUCKETS) {
+          const messages = results.filter((result) => result.bucket === bucket);
+          const labelId = labelIds[labelName(bucket)];
+
+          if (labelId && messages.length) {
+            for (const batch of chunkArray(
+              messages.map((message) => message.id),
+              GMAIL_BATCH_LIMIT
+            )) {
+              await gmail.users.messages.batchModify({
+                userId: "me",
+                requestBody: { ids: batch, addLabelIds: [labelId] },
+              });
+            }
+          }
+
+          buckets[bucket] = {
+            count: messages.length,
+            label: labelId ? labelName(bucket) : undefined,
+            messages: messages.map(({ bucket, ...message }) => message),
+          };
+        }
+
+        return formatResponse({
+          triaged: results.length,
+          labelsApplied: !!params.applyLabels,
+          buckets,
+        });
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_list_subscriptions",
+    "List newsletters and mailing lists you receive, grouped by sender. Only messages with a List-Unsubscribe header count. Shows how many messages each sender sent, how many are unread, when they last sent and whether one-click unsubscribe is supported.",
+    {
+      q: z
+        .string()
+        .optional()
+        .describe(
+          "Gmail search query selecting the messages to scan (default: newer_than:180d -in:chats)"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe("Maximum number of messages to scan (default: 500)"),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const result = await listSubscriptions(
+          gmail,
+          params,
+          (scanned, total) =>
+            reportProgress(
+              extra,
+              scanned,
+              total,
+              `Scanned ${scanned} of ${total} messages`
+            )
+        );
+        return formatResponse(result);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_unsubscribe",
+    "Unsubscribe from a newsletter or mailing list using its List-Unsubscribe header. Uses RFC 8058 one-click unsubscribe when offered, otherwise sends the unsubscribe email. Can also archive the sender's existing mail and filter future mail out of the inbox.",
+    {
+      messageId: z
+        .string()
+        .optional()
+        .describe("ID of a message from the list to unsubscribe from"),
+      sender: z
+        .string()
+        .optional()
+        .describe(
+          "Sender email address, used to find the newest message when no messageId is given"
+        ),
+      archiveExisting: z
+        .boolean()
+        .optional()
+        .describe("Archive the sender's messages currently in the inbox"),
+      filterFuture: z
+        .boolean()
+        .optional()
+        .describe(
+          "Create a filter that skips the inbox for future mail from the sender"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        return formatResponse(await unsubscribe(gmail, params));
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_awaiting_reply",
+    "Find sent threads from the last N days where nobody has replied since your last message, oldest first. Optionally saves a follow-up draft in each thread.",
+    {
+      days: z
+        .number()
+        .optional()
+        .describe("How many days of sent mail to scan (default: 14)"),
+      minAgeDays: z
+        .number()
+        .optional()
+        .describe(
+          "Only include threads whose last message is at least this many days old (default: 2)"
+        ),
+      maxThreads: z
+        .number()
+        .optional()
+        .describe("Maximum number of sent threads to scan (default: 100)"),
+      createDrafts: z
+        .boolean()
+        .optional()
+        .describe(
+          "Create a follow-up draft replying in each thread found (default: false)"
+        ),
+      nudgeBody: z
+        .string()
+        .optional()
+        .describe("Plain text body of the follow-up drafts"),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const result = await findAwaitingReply(
+          gmail,
+          params,
+          (scanned, total) =>
+            reportProgress(
+              extra,
+              scanned,
+              total,
+              `Checked ${scanned} of ${total} sent threads`
+            )
+        );
+
+        if (params.createDrafts) {
+          for (const item of result.awaiting) {
+            item.draftId = await createNudgeDraft(
+              gmail,
+              item,
+              params.nudgeBody
+            );
+          }
+        }
+
+        return formatResponse(result);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_analytics",
+    "Report mailbox statistics for a date range: message volume over time, top senders and recipients, reply time distribution for you and your correspondents, unread messages by label and the busiest hours and weekdays. Reads message metadata only, never bodies.",
+    {
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Start of the range as an ISO date or date-time (default: 30 days before the end)"
+        ),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          "End of the range as an ISO date or date-time (default: now)"
+        ),
+      q: z
+        .string()
+        .optional()
+        .describe(
+          "Additional Gmail search query to narrow the messages analyzed, e.g. label:work"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe("Maximum number of messages to analyze (default: 2000)"),
+      timeZone: z
+        .string()
+        .optional()
+        .describe(
+          "IANA time zone used for days and hours, e.g. Europe/London (default: the server's time zone)"
+        ),
+      topN: z
+        .number()
+        .optional()
+        .describe("Number of top senders and recipients to list (default: 10)"),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const report = await collectMailboxAnalytics(
+          gmail,
+          params,
+          (fetched, total) =>
+            reportProgress(
+              extra,
+              fetched,
+              total,
+              `Read metadata of ${fetched} of ${total} messages`
+            )
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  status: "success",
+                  tool: "gmail_analytics",
+                  report_type: "mailbox",
+                  data: report,
+                  message: `Analyzed ${report.totals.messages} messages from ${report.range.after} to ${report.range.before}`,
+                },
+                null,
+                2
+              ),
+            },
+            { type: "text", text: formatAnalyticsMarkdown(report) },
+          ],
+        };
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_export",
+    "Export messages matching a search query and/or labels to a standard mbox file or a folder of .eml files, with a manifest.json describing every message. Large exports can be split across runs: call again with the returned outputDir to resume where the last run stopped.",
+    {
+      q: z
+        .string()
+        .optional()
+        .describe(
+          "Gmail search query selecting the messages, e.g. from:client.com or label:clients"
+        ),
+      labelIds: z
+        .array(z.string())
+        .optional()
+        .describe("Only export messages with all of these label IDs"),
+      format: z
+        .enum(["mbox", "eml"])
+        .optional()
+        .describe(
+          "mbox writes a single messages.mbox file, eml writes one file per message (default: mbox)"
+        ),
+      outputDir: z
+        .string()
+        .optional()
+        .describe(
+          "Directory to write the export to, or the outputDir of an earlier export to resume it (default: a new folder in GMAIL_EXPORT_DIR)"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe(
+          "Maximum number of messages to export in this run, the rest can be exported by resuming"
+        ),
+      includeSpamTrash: z
+        .boolean()
+        .optional()
+        .describe("Include messages from SPAM and TRASH (default: false)"),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const result = await exportMessages(gmail, params, (done, total) =>
+          reportProgress(
+            extra,
+            done,
+            total,
+            `Exported ${done} of ${total} messages`
+          )
+        );
+        return formatResponse(result);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_import",
+    "Import an mbox file, an .eml file or a directory of them into Gmail, keeping each message's original date. Folder names (and X-Gmail-Labels headers from Takeout or gmail_export) become labels, created when missing. Messages whose Message-ID is already in the mailbox are skipped, so re-running an import is safe. Gmail does not allow importing into Sent or Drafts, so those folders become the labels 'Sent (imported)' and 'Drafts (imported)'.",
+    {
+      path: z
+        .string()
+        .describe(
+          "Absolute path of an mbox file, an .eml file or a directory containing .eml and mbox files"
+        ),
+      labelMap: z
+        .record(z.string())
+        .optional()
+        .describe(
+          'Folder name to label name overrides, e.g. {"Archive/2023": "Clients/2023"}; map a folder to "" to not label it'
+        ),
+      labelIds: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Label IDs added to every imported message, e.g. INBOX or UNREAD"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe(
+          "Stop after importing this many messages (in a dry run, after this many would be imported), duplicates do not count"
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe(
+          "Report what would be imported with which labels without importing or creating labels (default: false)"
+        ),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const result = await importMessages(
+          gmail,
+          {
+            path: params.path,
+            labelMap: params.labelMap,
+            labelIds: params.labelIds,
+            maxMessages: params.maxMessages,
+            dryRun: params.dryRun,
+          },
+          (processed) =>
+            reportProgress(
+              extra,
+              processed,
+              undefined,
+              `Processed ${processed} messages`
+            )
+        );
+        return formatResponse(result);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_mail_merge",
+    `Send a personalized email to every recipient in a CSV or JSON file. Subject and bodies are templates with {{placeholders}} (optionally {{name|fallback}}) filled from each row; values are HTML-escaped in the HTML body. Run with mode preview first to check the rendered messages; mode send records every recipient's outcome in a job file so an interrupted run can be resumed with jobId. Up to ${MERGE_BATCH_SIZE} messages are sent in the call, the rest continue in the background (see gmail_list_scheduled) unless maxSends is given.`,
+    {
+      mode: z
+        .enum(["preview", "send"])
+        .optional()
+        .describe(
+          "preview renders messages and reports problems without sending (default); send creates or resumes a job"
+        ),
+      jobId: z
+        .string()
+        .optional()
+        .describe(
+          "Resume an existing send job, templates and recipients are taken from the job file"
+        ),
+      recipientsFile: z
+        .string()
+        .optional()
+        .describe(
+          "Absolute path of a CSV file with a header row, or a JSON array of objects"
+        ),
+      emailField: z
+        .string()
+        .optional()
+        .describe("Column holding the recipient address (default: email)"),
+      subject: z
+        .string()
+        .optional()
+        .describe("Subject template, e.g. Hello {{first_name}}"),
+      body: z.string().optional().describe("Plain text body template"),
+      htmlBody: z.string().optional().describe("Optional HTML body template"),
+      cc: z
+        .array(z.string())
+        .optional()
+        .describe("CC addresses added to every message"),
+      bcc: z
+        .array(z.string())
+        .optional()
+        .describe("BCC addresses added to every message"),
+      ...sendAsSchema,
+      previewCount: z
+        .number()
+        .optional()
+        .describe(
+          "Number of rendered messages returned in preview (default: 3)"
+        ),
+      throttleMs: z
+        .number()
+        .optional()
+        .describe("Delay between two sends in milliseconds (default: 1000)"),
+      maxSends: z
+        .number()
+        .optional()
+        .describe(
+          "Send at most this many messages in this call and resume the job for the rest yourself, instead of sending them in the background"
+        ),
+      asDrafts: z
+        .boolean()
+        .optional()
+        .describe("Save each message as a draft instead of sending it"),
+      retryFailed: z
+        .boolean()
+        .optional()
+        .describe("When resuming, also retry recipients that failed before"),
+      allowMissing: z
+        .boolean()
+        .optional()
+        .describe(
+          "Send messages even when placeholders have no value instead of failing them"
+        ),
+    },
+    async (params, extra) => {
+      const template = {
+        subject: params.subject || "",
+        body: params.body || "",
+        htmlBody: params.htmlBody,
+        cc: params.cc,
+        bcc: params.bcc,
+        from: params.from,
+        includeSignature: params.includeSignature,
+      };
+
+      if ((params.mode ?? "preview") === "preview" && !params.jobId) {
+        return handleLocalTool(() => {
+          if (!params.recipientsFile)
+            throw new Error("recipientsFile is required");
+          return previewMailMerge(
+            template,
+            params.recipientsFile,
+            params.emailField,
+            params.previewCount
+          );
+        });
+      }
+
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        let job: MergeJob;
+        let problems: { row: number; error: string }[] = [];
+        if (params.jobId) {
+          job = readMergeJob(params.jobId);
+          if (params.mode !== "send")
+            return formatResponse(summarizeMergeJob(job));
+        } else {
+          if (!params.recipientsFile || !params.subject || !params.body)
+            return formatResponse({
+              error: "recipientsFile, subject and body are required to send",
+            });
+          ({ job, problems } = createMergeJob(template, params.recipientsFile, {
+            emailField: params.emailField,
+            throttleMs: params.throttleMs,
+            asDrafts: params.asDrafts,
+          }));
+        }
+
+        const queued = readScheduledJobs().find(
+          (scheduled) =>
+            scheduled.mergeJobId === job.id &&
+            (scheduled.status === "pending" || scheduled.status === "running")
+        );
+        if (queued)
+          return formatResponse({
+            ...summarizeMergeJob(job),
+            scheduledJobId: queued.id,
+            note: "This merge is sending in the background",
+          });
+
+        const result = await runMergeJob(gmail, job, {
+          maxSends: params.maxSends ?? MERGE_BATCH_SIZE,
+          retryFailed: params.retryFailed,
+          allowMissing: params.allowMissing,
+          onProgress: (done, total) =>
+            reportProgress(
+              extra,
+              done,
+              total,
+              `Processed ${done} of ${total} recipients`
+            ),
+        });
+        // Large merges continue through the scheduler, one batch per run
+        const scheduled =
+          result.pending && !result.stoppedReason && !params.maxSends
+            ? await scheduleMailMerge(job.id, params.allowMissing)
+            : undefined;
+        return formatResponse({
+          ...result,
+          skippedRows: problems,
+          scheduledJobId: scheduled?.id,
+        });
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_template_save",
+    "Create or replace a named email template. Subject, bodies and recipients may contain {{placeholders}}; placeholders not listed in variables are added automatically.",
+    {
+      name: z.string().describe("Unique template name, case-insensitive"),
+      description: z.string().optional().describe("What the template is for"),
+      subject: z.string().describe("Subject template"),
+      body: z.string().describe("Plain text body template"),
+      htmlBody: z.string().optional().describe("Optional HTML body template"),
+      to: z
+        .array(z.string())
+        .optional()
+        .describe("Default recipients, may use placeholders"),
+      cc: z.array(z.string()).optional().describe("Default CC recipients"),
+      bcc: z.array(z.string()).optional().describe("Default BCC recipients"),
+      variables: z
+        .array(
+          z.object({
+            name: z.string().describe("Placeholder name without braces"),
+            description: z
+              .string()
+              .optional()
+              .describe("What value to fill in"),
+            default: z
+              .string()
+              .optional()
+              .describe("Value used when none is given"),
+          })
+        )
+        .optional()
+        .describe("Declared variables with optional descriptions and defaults"),
+    },
+    async (params) => {
+      return handleLocalTool(() =>
+        saveTemplate({
+          name: params.name,
+          description: params.description,
+          subject: params.subject,
+          body: params.body,
+          htmlBody: params.htmlBody,
+          to: params.to,
+          cc: params.cc,
+          bcc: params.bcc,
+          variables: params.variables,
+        })
+      );
+    }
+  );
+
+  server.tool(
+    "gmail_template_list",
+    "List the saved email templates with their variables and default recipients",
+    {
+      name: z
+        .string()
+        .optional()
+        .describe("Only return the template with this name"),
+    },
+    async (params) => {
+      return handleLocalTool(() =>
+        params.name ? getTemplate(params.name) : { templates: listTemplates() }
+      );
+    }
+  );
+
+  server.tool(
+    "gmail_template_delete",
+    "Delete a saved email template",
+    {
+      name: z.string().describe("The name of the template to delete"),
+    },
+    async (params) => {
+      return handleLocalTool(() => {
+        deleteTemplate(params.name);
+        return { deleted: params.name };
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_create_draft_from_template",
+    "Create a draft from a saved email template, filling its {{placeholders}} with the given values and variable defaults",
+    {
+      name: z.string().describe("The name of the template"),
+      values: z
+        .record(z.string())
+        .optional()
+        .describe(
+          'Values for the template variables, e.g. {"first_name": "Ann"}'
+        ),
+      to: z
+        .array(z.string())
+        .optional()
+        .describe("Recipients, replacing the template's default recipients"),
+      cc: z
+        .array(z.string())
+        .optional()
+        .describe("CC recipients, replacing the template's defaults"),
+      bcc: z
+        .array(z.string())
+        .optional()
+        .describe("BCC recipients, replacing the template's defaults"),
+      threadId: z
+        .string()
+        .optional()
+        .describe("The thread ID to reply in with this draft"),
+      attachments: z
+        .array(attachmentSchema)
+        .optional()
+        .describe("Files to attach, given as local paths or base64 data"),
+      ...sendAsSchema,
+      allowMissing: z
+        .boolean()
+        .optional()
+        .describe(
+          "Create the draft even if some variables have no value, leaving them empty"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const message = renderEmailTemplate(
+          getTemplate(params.name),
+          params.values,
+          { to: params.to, cc: params.cc, bcc: params.bcc },
+          params.allowMissing
+        );
+        const raw = await constructRawMessage(gmail, {
+          ...message,
+          threadId: params.threadId,
+          attachments: params.attachments,
+          from: params.from,
+          includeSignature: params.includeSignature,
+        });
+        const data = await sendOrSaveDraft(gmail, raw, params.threadId, true);
+        return formatResponse(data);
+      });
+    }
+  );
+
   server.tool(
     "gmail_modify_message",
     "Modify the labels on a message",
@@ -576,7 +1947,7 @@ export function registerGmailTools(
         .string()
         .optional()
         .describe(
-          "The entire email message in base64url encoded RFC 2822 format, ignores params.to, cc, bcc, subject, body, includeBodyHtml if provided"
+          "The entire email message in base64url encoded RFC 2822 format, ignores params.to, cc, bcc, subject, body, htmlBody, attachments, inlineImages if provided"
         ),
       threadId: z
         .string()
@@ -595,7 +1966,24 @@ export function registerGmailTools(
         .optional()
         .describe("List of BCC recipient email addresses"),
       subject: z.string().optional().describe("The subject of the email"),
-      body: z.string().optional().describe("The body of the email"),
+      body: z.string().optional().describe("The plain text body of the email"),
+      htmlBody: z
+        .string()
+        .optional()
+        .describe(
+          "The HTML body of the email, sent alongside the plain text body as multipart/alternative"
+        ),
+      attachments: z
+        .array(attachmentSchema)
+        .optional()
+        .describe("Files to attach, given as local paths or base64 data"),
+      inlineImages: z
+        .array(attachmentSchema)
+        .optional()
+        .describe(
+          "Images embedded in the HTML body, each needs a contentId referenced as cid:<contentId>"
+        ),
+      ...sendAsSchema,
       includeBodyHtml: z
         .boolean()
         .optional()
@@ -630,6 +2018,109 @@ export function registerGmailTools(
     }
   );
 
+  server.tool(
+    "gmail_reply",
+    "Reply to the sender of a specific message. The reply is threaded under that message and quotes it; the recipient is taken from its Reply-To or From header.",
+    {
+      messageId: z.string().describe("The ID of the message to reply to"),
+      cc: z
+        .array(z.string())
+        .optional()
+        .describe("Additional CC recipient email addresses"),
+      ...responseBodySchema,
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { messageId, draft, includeBodyHtml, ...message } = params;
+        const { raw, threadId } = await constructResponseMessage(
+          gmail,
+          messageId,
+          "reply",
+          message
+        );
+        const data = await sendOrSaveDraft(
+          gmail,
+          raw,
+          threadId,
+          draft,
+          includeBodyHtml
+        );
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_reply_all",
+    "Reply to the sender and all other recipients of a specific message, leaving out your own address. The reply is threaded under that message and quotes it.",
+    {
+      messageId: z.string().describe("The ID of the message to reply to"),
+      cc: z
+        .array(z.string())
+        .optional()
+        .describe("Additional CC recipient email addresses"),
+      ...responseBodySchema,
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { messageId, draft, includeBodyHtml, ...message } = params;
+        const { raw, threadId } = await constructResponseMessage(
+          gmail,
+          messageId,
+          "replyAll",
+          message
+        );
+        const data = await sendOrSaveDraft(
+          gmail,
+          raw,
+          threadId,
+          draft,
+          includeBodyHtml
+        );
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_forward",
+    "Forward a specific message, including its original attachments, to new recipients",
+    {
+      messageId: z.string().describe("The ID of the message to forward"),
+      to: z.array(z.string()).describe("List of recipient email addresses"),
+      cc: z
+        .array(z.string())
+        .optional()
+        .describe("List of CC recipient email addresses"),
+      includeOriginalAttachments: z
+        .boolean()
+        .optional()
+        .describe(
+          "Whether to attach the files from the original message (default: true)"
+        ),
+      ...responseBodySchema,
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { messageId, draft, includeBodyHtml, ...message } = params;
+        const { raw, threadId } = await constructResponseMessage(
+          gmail,
+          messageId,
+          "forward",
+          message
+        );
+        const data = await sendOrSaveDraft(
+          gmail,
+          raw,
+          threadId,
+          draft,
+          includeBodyHtml
+        );
+        return formatResponse(data);
+      });
+    }
+  );
+
   server.tool(
     "gmail_trash_message",
     "Move a message to the trash",
@@ -666,7 +2157,7 @@ export function registerGmailTools(
 
   server.tool(
     "gmail_get_attachment",
-    "Get a message attachment",
+    "Get a message attachment as base64 data, see gmail_save_attachments to write attachments to disk instead",
     {
       messageId: z
         .string()
@@ -685,6 +2176,90 @@ export function registerGmailTools(
     }
   );
 
+  server.tool(
+    "gmail_save_attachments",
+    "Save the attachments of a message, or of every message matching a query, to a local directory instead of returning base64 data. File names are sanitized and files already saved with identical content are not written twice. Optionally extracts the text of PDF, DOCX, CSV, HTML and plain-text files.",
+    {
+      messageId: z
+        .string()
+        .optional()
+        .describe("ID of the message whose attachments to save"),
+      q: z
+        .string()
+        .optional()
+        .describe(
+          "Gmail search query selecting messages to save attachments from, e.g. has:attachment from:billing@example.com"
+        ),
+      maxMessages: z
+        .number()
+        .optional()
+        .describe(
+          "Maximum number of messages to process when using q (default: 20)"
+        ),
+      directory: z
+        .string()
+        .optional()
+        .describe(
+          "Absolute directory to save into (default: GMAIL_ATTACHMENTS_DIR or the attachments folder in the config directory)"
+        ),
+      extractText: z
+        .boolean()
+        .optional()
+        .describe(
+          "Extract readable text, save it as <file>.txt and include it in the response. Scanned PDFs and PDFs with undecodable fonts report textError instead"
+        ),
+      maxTextLength: z
+        .number()
+        .optional()
+        .describe(
+          "Maximum characters of extracted text returned per file (default: 20000)"
+        ),
+    },
+    async (params, extra) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        if (!params.messageId && !params.q)
+          return formatResponse({ error: "Provide a messageId or a query" });
+
+        const ids = params.messageId
+          ? [params.messageId]
+          : await listAllMessageIds(gmail, {
+              q: `${params.q} has:attachment`,
+              maxMessages: params.maxMessages ?? 20,
+            });
+        const directory = params.directory || getAttachmentsDir();
+
+        const saved: SavedAttachment[] = [];
+        for (const [index, id] of ids.entries()) {
+          const { data: message } = await gmail.users.messages.get({
+            userId: "me",
+            id,
+            format: "full",
+          });
+          saved.push(
+            ...(await saveMessageAttachments(gmail, message, directory, {
+              extractText: params.extractText,
+              maxTextLength: params.maxTextLength,
+            }))
+          );
+          await reportProgress(
+            extra,
+            index + 1,
+            ids.length,
+            `Saved attachments of ${index + 1} of ${ids.length} messages`
+          );
+        }
+
+        return formatResponse({
+          directory,
+          messages: ids.length,
+          saved: saved.filter((file) => !file.duplicate).length,
+          duplicates: saved.filter((file) => file.duplicate).length,
+          files: saved,
+        });
+      });
+    }
+  );
+
   // Thread operations
   server.tool(
     "gmail_delete_thread",
@@ -740,6 +2315,38 @@ export function registerGmailTools(
     }
   );
 
+  server.tool(
+    "gmail_thread_digest",
+    "Get a compact digest of a thread: one chronological turn per message with the sender, date and only the newly written text. Quoted history, signatures and HTML markup are removed.",
+    {
+      id: z.string().describe("The ID of the thread to digest"),
+      format: z
+        .enum(["text", "json"])
+        .optional()
+        .describe(
+          "Return a plain text transcript (default) or structured JSON turns"
+        ),
+      maxCharsPerTurn: z
+        .number()
+        .optional()
+        .describe("Truncate each turn's text to this many characters"),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.threads.get({
+          userId: "me",
+          id: params.id,
+          format: "full",
+        });
+
+        const digest = digestThread(data, params.maxCharsPerTurn);
+        if (params.format === "json") return formatResponse(digest);
+
+        return { content: [{ type: "text", text: formatDigest(digest) }] };
+      });
+    }
+  );
+
   server.tool(
     "gmail_list_threads",
     "List threads in the user's mailbox",
@@ -1065,6 +2672,215 @@ export function registerGmailTools(
     }
   );
 
+  // Filter tools
+  server.tool(
+    "gmail_list_filters",
+    "List the message filters of the user's mailbox",
+    {},
+    async () => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.settings.filters.list({
+          userId: "me",
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_create_filter",
+    "Create a message filter that applies actions to incoming mail matching the criteria",
+    {
+      from: z
+        .string()
+        .optional()
+        .describe("The sender's display name or email address"),
+      to: z
+        .string()
+        .optional()
+        .describe("The recipient's display name or email address"),
+      subject: z
+        .string()
+        .optional()
+        .describe("Case-insensitive phrase found in the message's subject"),
+      query: z
+        .string()
+        .optional()
+        .describe(
+          "Only match messages matching this query, same format as the Gmail search box"
+        ),
+      negatedQuery: z
+        .string()
+        .optional()
+        .describe("Only match messages not matching this query"),
+      hasAttachment: z
+        .boolean()
+        .optional()
+        .describe("Whether the message has any attachment"),
+      excludeChats: z
+        .boolean()
+        .optional()
+        .describe("Whether the response should exclude chats"),
+      size: z
+        .number()
+        .optional()
+        .describe("The size of the message in bytes, used with sizeComparison"),
+      sizeComparison: z
+        .enum(["larger", "smaller"])
+        .optional()
+        .describe("How the message size in bytes is compared to size"),
+      ...filterActionSchema,
+    },
+    async (params) => {
+      const { addLabelIds, removeLabelIds, forward, ...criteria } = params;
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.settings.filters.create({
+          userId: "me",
+          requestBody: {
+            criteria,
+            action: { addLabelIds, removeLabelIds, forward },
+          },
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_delete_filter",
+    "Delete a message filter",
+    {
+      id: z.string().describe("The ID of the filter to delete"),
+    },
+    async (params) => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.settings.filters.delete({
+          userId: "me",
+          id: params.id,
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_filter_from_message",
+    "Create a filter matching mail like an existing message, using its sender and optionally its subject as criteria",
+    {
+      messageId: z
+        .string()
+        .describe("The ID of the message to build the filter criteria from"),
+      matchSubject: z
+        .boolean()
+        .optional()
+        .describe(
+          "Whether to match the message's subject, without Re:/Fwd: prefixes, as well as the sender (default: true)"
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .describe("Only return the criteria without creating the filter"),
+      ...filterActionSchema,
+    },
+    async (params) => {
+      const { messageId, matchSubject, dryRun, ...action } = params;
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data: message } = await gmail.users.messages.get({
+          userId: "me",
+          id: messageId,
+          format: "metadata",
+          metadataHeaders: ["From", "Subject"],
+        });
+
+        const criteria = getFilterCriteriaFromMessage(message, matchSubject);
+        if (!criteria.from && !criteria.subject)
+          return formatResponse({
+            error: "Could not find a sender or subject to filter on",
+          });
+
+        if (dryRun) return formatResponse({ criteria, action });
+
+        const { data } = await gmail.users.settings.filters.create({
+          userId: "me",
+          requestBody: { criteria, action },
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
+  // Send-as alias and delegate tools
+  server.tool(
+    "gmail_list_send_as",
+    "List the send-as aliases of the account, including the primary address, with their display names, reply-to addresses and HTML signatures",
+    {},
+    async () => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.settings.sendAs.list({
+          userId: "me",
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_update_send_as",
+    "Update a send-as alias (partial update), e.g. its display name or HTML signature",
+    {
+      sendAsEmail: z
+        .string()
+        .describe("The email address of the send-as alias to update"),
+      displayName: z
+        .string()
+        .optional()
+        .describe("The name that appears in the From header"),
+      replyToAddress: z
+        .string()
+        .optional()
+        .describe("An optional address used in the Reply-To header"),
+      signature: z
+        .string()
+        .optional()
+        .describe(
+          "HTML signature appended to new messages sent from the alias"
+        ),
+      isDefault: z
+        .boolean()
+        .optional()
+        .describe("Whether this alias is the default From address"),
+      treatAsAlias: z
+        .boolean()
+        .optional()
+        .describe("Whether Gmail should treat this address as an alias"),
+    },
+    async (params) => {
+      const { sendAsEmail, ...sendAsData } = params;
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.settings.sendAs.patch({
+          userId: "me",
+          sendAsEmail,
+          requestBody: sendAsData,
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_list_delegates",
+    "List the delegates that can read, send and delete mail on behalf of the account",
+    {},
+    async () => {
+      return handleTool(config, async (gmail: gmail_v1.Gmail) => {
+        const { data } = await gmail.users.settings.delegates.list({
+          userId: "me",
+        });
+        return formatResponse(data);
+      });
+    }
+  );
+
   // Profile and other tools
   server.tool(
     "gmail_get_profile",
@@ -1080,7 +2896,7 @@ export function registerGmailTools(
 
   server.tool(
     "gmail_watch_mailbox",
-    "Watch for changes to the user's mailbox",
+    "Watch for changes to the user's mailbox. The watch is renewed automatically before it expires after 7 days, and when a push port or Pub/Sub pull subscription is configured new mail is published as the gmail://watch/new-mail resource.",
     {
       topicName: z
         .string()
@@ -1098,11 +2914,12 @@ export function registerGmailTools(
     },
     async (params) => {
       return handleTool(config, async (gmail: gmail_v1.Gmail) => {
-        const { data } = await gmail.users.watch({
-          userId: "me",
-          requestBody: params,
+        const data = await startWatch(gmail, {
+          topicName: params.topicName,
+          labelIds: params.labelIds,
+          labelFilterAction: params.labelFilterAction,
         });
-        return formatResponse(data);
+        return formatResponse({ ...data, receiver: getWatchReceiverConfig() });
       });
     }
   );
@@ -1113,13 +2930,29 @@ export function registerGmailTools(
     {},
     async () => {
       return handleTool(config, async (gmail: gmail_v1.Gmail) => {
-        const { data } = await gmail.users.stop({ userId: "me" });
-        return formatResponse(data);
+        await stopWatch(gmail);
+        return formatResponse({ stopped: true });
+      });
+    }
+  );
+
+  server.tool(
+    "gmail_watch_status",
+    "Get the state of the mailbox watch: its labels, expiry and last renewal, the configured notification receiver and the most recent new messages it reported",
+    {},
+    async () => {
+      return handleLocalTool(() => {
+        const state = readWatchState();
+        return {
+          watching: !!state,
+          ...state,
+          receiver: getWatchReceiverConfig(),
+        };
       });
     }
   );
 
   // Note: I've included the main/most commonly used tools.
-  // Additional tools for delegates, filters, forwarding addresses, send-as aliases,
-  // and S/MIME can be added similarly following the same pattern.
+  // Additional tools for forwarding addresses and S/MIME can be added
+  // similarly following the same pattern.
 }
@@ -4,12 +4,75 @@ import { calendar_v3 } from "googleapis";
 import {
   handleTool,
   formatResponse,
-  formatDate,
   parseDateTime,
-  createEventDateTime,
+  createEventTimes,
+  formatEventDateTime,
+  createEvent,
+  summarizeEvent,
+  summarizeAttendees,
+  getMeetLink,
+  createMeetRequest,
   Calendar,
-  CalendarEvent,
+  CalendarEventPatch,
+  toEventRequestBody,
 } from "../modules/google-calendar.js";
+import { findFreeSlots } from "../modules/calendar-slots.js";
+import { getLocalTimeZone } from "../modules/time-zones.js";
+import {
+  listPendingInvitations,
+  respondToEvent,
+  RsvpResponse,
+} from "../modules/calendar-invitations.js";
+import { addDaysToDate, parseDateExpression } from "../modules/date-parser.js";
+import {
+  buildRecurrence,
+  EditScope,
+  listInstances,
+  RecurrenceInput,
+  resolveRecurringEvent,
+  shiftSeriesTimes,
+  splitSeries,
+} from "../modules/calendar-recurrence.js";
+
+const recurrenceSchema = z
+  .object({
+    rrule: z
+      .string()
+      .optional()
+      .describe(
+        "RRULE string, e.g. 'FREQ=WEEKLY;BYDAY=MO,WE' (the fields below are added to it)"
+      ),
+    frequency: z
+      .enum(["daily", "weekly", "monthly", "yearly"])
+      .optional()
+      .describe("How often the event repeats, when no rrule is given"),
+    interval: z
+      .number()
+      .optional()
+      .describe("Repeat every N periods, e.g. 2 for every other week"),
+    byDay: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Weekdays as MO-SU or names, with an optional position for monthly rules, e.g. ['1MO'] or ['-1FR']"
+      ),
+    byMonthDay: z
+      .array(z.number())
+      .optional()
+      .describe("Days of the month, e.g. [1, 15]"),
+    count: z.number().optional().describe("Number of occurrences"),
+    until: z
+      .string()
+      .optional()
+      .describe("Last day of the series, ISO or natural language"),
+    exceptions: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Dates or date-times of occurrences to skip; on update of a series without a rule, these are added to it"
+      ),
+  })
+  .optional();
 
 export function registerGoogleCalendarTools(
   server: McpServer,
@@ -22,13 +85,13 @@ export function registerGoogleCalendarTools(
       startDate: z
         .string()
         .describe(
-          "Start date in ISO format (YYYY-MM-DD) or relative format like 'today', 'tomorrow'"
+          "Start date in ISO format (YYYY-MM-DD) or natural language like 'today', 'next Monday', 'in 3 days'"
         ),
       endDate: z
         .string()
         .optional()
         .describe(
-          "End date in ISO format (YYYY-MM-DD) or relative format like 'today', 'tomorrow'"
+          "End date in ISO format (YYYY-MM-DD) or natural language like 'tomorrow', 'next Friday'"
         ),
       calendarId: z
         .string()
@@ -40,6 +103,12 @@ export function registerGoogleCalendarTools(
         .number()
         .optional()
         .describe("Maximum number of events to return (default: 10)"),
+      timeZone: z
+        .string()
+        .optional()
+        .describe(
+          "IANA time zone to show event times in and to read the dates in, e.g. Asia/Tokyo (default: the server's time zone)"
+        ),
     },
     async (params) => {
       return handleTool(config, async (calendar: calendar_v3.Calendar) => {
@@ -48,12 +117,15 @@ export function registerGoogleCalendarTools(
           endDate,
           calendarId = "primary",
           maxResults = 10,
+          timeZone = getLocalTimeZone(),
         } = params;
 
-        // Format dates
-        const timeMin = new Date(formatDate(startDate)).toISOString();
+        // Dates start at midnight in the display time zone
+        const timeMin = parseDateExpression(startDate, {
+          timeZone,
+        }).start.toISOString();
         const timeMax = endDate
-          ? new Date(formatDate(endDate)).toISOString()
+          ? parseDateExpression(endDate, { timeZone }).start.toISOString()
           : undefined;
 
         const { data } = await calendar.events.list({
@@ -63,6 +135,7 @@ export function registerGoogleCalendarTools(
           maxResults,
           singleEvents: true,
           orderBy: "startTime",
+          timeZone,
         });
 
         const events =
@@ -71,16 +144,18 @@ export function registerGoogleCalendarTools(
             summary: event.summary || "No title",
             description: event.description || "",
             location: event.location || "",
-            start: event.start?.dateTime || event.start?.date,
-            end: event.end?.dateTime || event.end?.date,
-            attendees: event.attendees?.map((a: any) => a.email) || [],
+            start: formatEventDateTime(event.start, timeZone),
+            end: formatEventDateTime(event.end, timeZone),
+            allDay: !!event.start?.date,
+            attendees: summarizeAttendees(event.attendees),
+            meetLink: getMeetLink(event),
             link: event.htmlLink,
             created: event.created,
             updated: event.updated,
             status: event.status,
           })) || [];
 
-        return formatResponse({ events, count: events.length });
+        return formatResponse({ events, count: events.length, timeZone });
       });
     }
   );
@@ -92,11 +167,33 @@ export function registerGoogleCalendarTools(
       summary: z.string().describe("Title/summary of the event"),
       startDateTime: z
         .string()
-        .describe("Start date and time in ISO format or natural language"),
+        .describe(
+          "Start date and time in ISO format or natural language, e.g. 'next Tuesday 3pm', 'in 2 hours', '2-4pm Friday' or 'tomorrow 10am for 30 minutes Europe/Berlin'"
+        ),
       endDateTime: z
         .string()
         .optional()
-        .describe("End date and time in ISO format or natural language"),
+        .describe(
+          "End date and time in ISO format or natural language; a time alone is on the start date, and for all-day events this is the last day (default: the end of a range in startDateTime, else 1 hour or 1 day after the start)"
+        ),
+      allDay: z
+        .boolean()
+        .optional()
+        .describe(
+          "Create an all-day event on the start date through the end date (default: when the start is a date without a time, e.g. '2025-12-24' or 'Dec 24 to Dec 26')"
+        ),
+      startTimeZone: z
+        .string()
+        .optional()
+        .describe(
+          "IANA time zone of the start, e.g. America/New_York, used to read the start time (default: a zone named in startDateTime, else the server's time zone)"
+        ),
+      endTimeZone: z
+        .string()
+        .optional()
+        .describe(
+          "IANA time zone of the end, e.g. for a flight landing elsewhere (default: the start's time zone)"
+        ),
       description: z.string().optional().describe("Description of the event"),
       location: z.string().optional().describe("Location of the event"),
       attendees: z
@@ -109,6 +206,13 @@ export function registerGoogleCalendarTools(
         .describe(
           "ID of the calendar to create the event in (defaults to primary calendar)"
         ),
+      recurrence: recurrenceSchema.describe(
+        "Makes the event repeat, from an RRULE string or structured fields, with optional exceptions"
+      ),
+      addGoogleMeet: z
+        .boolean()
+        .optional()
+        .describe("Add a Google Meet video conference link (default: false)"),
     },
     async (params) => {
       return handleTool(config, async (calendar: calendar_v3.Calendar) => {
@@ -120,60 +224,203 @@ export function registerGoogleCalendarTools(
           location,
           attendees,
           calendarId = "primary",
+          recurrence,
         } = params;
 
-        // Parse start and end times
-        const startTime = parseDateTime(startDateTime);
-        const endTime = endDateTime
-          ? parseDateTime(endDateTime)
-          : new Date(new Date(startTime).getTime() + 3600000).toISOString(); // Default to 1 hour later
+        // "2-4pm Friday", "for 30 minutes" or a date range also set the end
+        const { start, end } = createEventTimes(startDateTime, endDateTime, {
+          allDay: params.allDay,
+          startTimeZone: params.startTimeZone,
+          endTimeZone: params.endTimeZone,
+        });
 
-        const event: any = {
+        const createdEvent = await createEvent(calendar, {
           summary,
-          description: description || "",
-          location: location || "",
-          start: {
-            dateTime: startTime,
-            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          },
-          end: {
-            dateTime: endTime,
-            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          },
-        };
-
-        // Add attendees if provided
-        if (attendees && attendees.length > 0) {
-          event.attendees = attendees.map((email: string) => ({ email }));
-        }
-
-        const { data } = await calendar.events.insert({
+          start,
+          end,
+          description,
+          location,
+          attendees: attendees?.map((email: string) => ({ email })),
           calendarId,
-          requestBody: event,
-          sendUpdates: "all",
+          recurrence: recurrence
+            ? buildRecurrence(recurrence as RecurrenceInput, start)
+            : undefined,
+          addGoogleMeet: params.addGoogleMeet,
         });
 
-        const createdEvent = {
-          id: data.id,
-          summary: data.summary,
-          description: data.description,
-          location: data.location,
-          start: data.start?.dateTime,
-          end: data.end?.dateTime,
-          attendees: data.attendees?.map((a: any) => a.email) || [],
-          link: data.htmlLink,
-        };
-
         return formatResponse(createdEvent);
       });
     }
   );
 
+  server.tool(
+    "calendar_find_free_slots",
+    "Find times when all the given calendars and attendees are free, using free/busy information. Respects working hours (also in each attendee's own time zone), a minimum duration and buffer time around existing events, and returns candidate slots ranked best first. Optionally books the best or a chosen slot as a new event.",
+    {
+      durationMinutes: z.number().describe("Length of the meeting in minutes"),
+      timeMin: z
+        .string()
+        .optional()
+        .describe(
+          "Start of the search range in ISO format or natural language (default: now)"
+        ),
+      timeMax: z
+        .string()
+        .optional()
+        .describe(
+          "End of the search range in ISO format or natural language (default: 7 days after the start)"
+        ),
+      attendees: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Email addresses of required attendees whose calendars must be free"
+        ),
+      optionalAttendees: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Email addresses of optional attendees, slots where they are busy rank lower"
+        ),
+      calendarIds: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Calendar IDs that must be free (defaults to primary when no attendees are given)"
+        ),
+      bufferMinutes: z
+        .number()
+        .optional()
+        .describe("Free time to keep before and after existing events"),
+      stepMinutes: z
+        .number()
+        .optional()
+        .describe("Spacing between candidate start times (default: 30)"),
+      timeZone: z
+        .string()
+        .optional()
+        .describe(
+          "IANA time zone for working hours and results, e.g. America/New_York (default: the server's time zone)"
+        ),
+      workingHoursStart: z
+        .string()
+        .optional()
+        .describe("Start of working hours as HH:MM (default: 09:00)"),
+      workingHoursEnd: z
+        .string()
+        .optional()
+        .describe("End of working hours as HH:MM (default: 17:00)"),
+      workingDays: z
+        .array(z.number().min(0).max(6))
+        .optional()
+        .describe(
+          "Working days as numbers, 0 = Sunday to 6 = Saturday (default: Monday to Friday)"
+        ),
+      attendeeTimeZones: z
+        .record(z.string())
+        .optional()
+        .describe(
+          'Time zones of attendees in other regions, e.g. {"ana@example.com": "Asia/Tokyo"}; slots must fall in their working hours too'
+        ),
+      maxResults: z
+        .number()
+        .optional()
+        .describe("Maximum number of slots to return (default: 10)"),
+      book: z
+        .boolean()
+        .optional()
+        .describe(
+          "Create an event in the chosen slot and invite the attendees (default: false)"
+        ),
+      slotIndex: z
+        .number()
+        .optional()
+        .describe(
+          "Index in the returned slots of the slot to book (default: 0, the best slot)"
+        ),
+      summary: z
+        .string()
+        .optional()
+        .describe("Title of the event to book, required with book"),
+      description: z
+        .string()
+        .optional()
+        .describe("Description of the event to book"),
+      location: z.string().optional().describe("Location of the event to book"),
+      calendarId: z
+        .string()
+        .optional()
+        .describe(
+          "ID of the calendar to book the event in (defaults to primary calendar)"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (calendar: calendar_v3.Calendar) => {
+        if (params.book && !params.summary)
+          throw new Error("summary is required to book a slot");
+
+        const timeMin = params.timeMin
+          ? parseDateTime(params.timeMin)
+          : new Date().toISOString();
+        const timeMax = params.timeMax
+          ? parseDateTime(params.timeMax)
+          : new Date(new Date(timeMin).getTime() + 7 * 86400000).toISOString();
+
+        const result = await findFreeSlots(calendar, {
+          ...params,
+          timeMin,
+          timeMax,
+          durationMinutes: params.durationMinutes,
+          workingHours: {
+            start: params.workingHoursStart,
+            end: params.workingHoursEnd,
+            days: params.workingDays,
+          },
+        });
+        if (!params.book) return formatResponse(result);
+
+        const slot = result.slots[params.slotIndex || 0];
+        if (!slot) throw new Error("No free slot found to book");
+
+        const event = await createEvent(calendar, {
+          summary: params.summary,
+          start: { dateTime: slot.start, timeZone: result.timeZone },
+          end: { dateTime: slot.end, timeZone: result.timeZone },
+          description: params.description,
+          location: params.location,
+          attendees: [
+            ...(params.attendees || []).map((email: string) => ({ email })),
+            ...(params.optionalAttendees || []).map((email: string) => ({
+              email,
+              optional: true,
+            })),
+          ],
+          calendarId: params.calendarId,
+        });
+        return formatResponse({ ...result, booked: event });
+      });
+    }
+  );
+
   server.tool(
     "calendar_update_event",
-    "Update an existing calendar event",
+    "Update an existing calendar event. For recurring events, scope picks whether the change applies to one occurrence, that occurrence and all later ones, or the whole series",
     {
-      eventId: z.string().describe("ID of the event to update"),
+      eventId: z
+        .string()
+        .describe("ID of the event, recurring series or single occurrence"),
+      scope: z
+        .enum(["this", "following", "all"])
+        .optional()
+        .describe(
+          "For recurring events: 'this' occurrence only, 'following' for this and later occurrences, or 'all' events in the series (default: 'this' for an occurrence ID, 'all' for a series ID)"
+        ),
+      instanceStartTime: z
+        .string()
+        .optional()
+        .describe(
+          "Start of the occurrence to edit when eventId is a series, ISO or natural language"
+        ),
       summary: z.string().optional().describe("New title/summary of the event"),
       startDateTime: z
         .string()
@@ -182,7 +429,23 @@ export function registerGoogleCalendarTools(
       endDateTime: z
         .string()
         .optional()
-        .describe("New end date and time in ISO format or natural language"),
+        .describe(
+          "New end date and time in ISO format or natural language; for all-day events the last day"
+        ),
+      allDay: z
+        .boolean()
+        .optional()
+        .describe(
+          "Make the event all-day (true) or timed (false, needs a startDateTime with a time)"
+        ),
+      startTimeZone: z
+        .string()
+        .optional()
+        .describe("IANA time zone of the start, e.g. Europe/London"),
+      endTimeZone: z
+        .string()
+        .optional()
+        .describe("IANA time zone of the end (default: the start's time zone)"),
       description: z
         .string()
         .optional()
@@ -192,6 +455,15 @@ export function registerGoogleCalendarTools(
         .array(z.string())
         .optional()
         .describe("New list of email addresses of attendees"),
+      recurrence: recurrenceSchema.describe(
+        "New recurrence for the series, or only exceptions to add to it; not allowed with scope 'this'"
+      ),
+      addGoogleMeet: z
+        .boolean()
+        .optional()
+        .describe(
+          "Add a Google Meet link (true) when the event has none, or remove the conference (false)"
+        ),
       calendarId: z
         .string()
         .optional()
@@ -201,62 +473,271 @@ export function registerGoogleCalendarTools(
     },
     async (params) => {
       return handleTool(config, async (calendar: calendar_v3.Calendar) => {
-        const { eventId, calendarId = "primary", ...updates } = params;
+        const {
+          eventId,
+          calendarId = "primary",
+          instanceStartTime,
+          ...updates
+        } = params;
 
-        // Get existing event
-        const { data: existingEvent } = await calendar.events.get({
+        const { series, instance } = await resolveRecurringEvent(
+          calendar,
           calendarId,
           eventId,
-        });
+          instanceStartTime
+        );
+        const recurring = !!series.recurrence?.length;
+        const scope: EditScope = params.scope || (instance ? "this" : "all");
+        if (recurring && scope !== "all" && !instance)
+          throw new Error(
+            `scope '${scope}' needs an occurrence: pass its event ID or instanceStartTime`
+          );
+        if (updates.recurrence && scope === "this")
+          throw new Error(
+            "recurrence can only change for 'following' or 'all' events"
+          );
+
+        // Only the fields given are changed
+        const target = (recurring && scope === "this" && instance) || series;
+        const changes: CalendarEventPatch = {};
+        if (updates.summary) changes.summary = updates.summary;
+        if (updates.description !== undefined)
+          changes.description = updates.description;
+        if (updates.location !== undefined) changes.location = updates.location;
+
+        if (
+          updates.startDateTime ||
+          updates.endDateTime ||
+          updates.allDay !== undefined ||
+          updates.startTimeZone ||
+          updates.endTimeZone
+        ) {
+          // Unchanged parts come from the event; a new start keeps its length
+          const current = instance || target;
+          const currentStart = current.start?.dateTime || current.start?.date;
+          const currentEnd = current.end?.dateTime || current.end?.date;
+          const lengthMinutes =
+            (new Date(currentEnd || 0).getTime() -
+              new Date(currentStart || 0).getTime()) /
+            60000;
+          const times = createEventTimes(
+            updates.startDateTime || currentStart!,
+            updates.endDateTime ||
+              (updates.startDateTime || !currentEnd
+                ? undefined
+                : current.end?.date
+                ? addDaysToDate(currentEnd, -1)
+                : currentEnd),
+            {
+              allDay: updates.allDay,
+              startTimeZone:
+                updates.startTimeZone || current.start?.timeZone || undefined,
+              endTimeZone:
+                updates.endTimeZone || current.end?.timeZone || undefined,
+              defaultDurationMinutes:
+                lengthMinutes > 0 ? lengthMinutes : undefined,
+            }
+          );
+          changes.start = times.start;
+          changes.end = times.end;
+        }
 
-        // Prepare updates
-        const updatedEvent = { ...existingEvent };
+        if (updates.attendees) {
+          // Guests who stay keep their responses
+          changes.attendees = updates.attendees.map(
+            (email: string) =>
+              target.attendees?.find(
+                (attendee) =>
+                  attendee.email?.toLowerCase() === email.toLowerCase()
+              ) || { email }
+          );
+        }
 
-        if (updates.summary) updatedEvent.summary = updates.summary;
-        if (updates.description !== undefined)
-          updatedEvent.description = updates.description;
-        if (updates.location !== undefined)
-          updatedEvent.location = updates.location;
-
-        if (updates.startDateTime) {
-          updatedEvent.start = {
-            dateTime: parseDateTime(updates.startDateTime),
-            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          };
+        if (updates.addGoogleMeet !== undefined) {
+          // A null field in a patch request clears it
+          if (!updates.addGoogleMeet) changes.conferenceData = null;
+          else if (!getMeetLink(target))
+            changes.conferenceData = createMeetRequest();
         }
 
-        if (updates.endDateTime) {
-          updatedEvent.end = {
-            dateTime: parseDateTime(updates.endDateTime),
-            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          };
+        if (updates.recurrence) {
+          changes.recurrence = buildRecurrence(
+            updates.recurrence as RecurrenceInput,
+            changes.start ||
+              (scope === "following" && instance?.start) ||
+              series.start!,
+            series.recurrence || []
+          );
         }
 
-        if (updates.attendees) {
-          updatedEvent.attendees = updates.attendees.map((email: string) => ({
-            email,
-          }));
+        if (recurring && scope === "following") {
+          const { previousSeries, newSeries } = await splitSeries(
+            calendar,
+            calendarId,
+            series,
+            instance!,
+            changes
+          );
+          return formatResponse({
+            scope,
+            updated: summarizeEvent(newSeries),
+            previousSeries: previousSeries
+              ? summarizeEvent(previousSeries)
+              : undefined,
+          });
         }
 
-        const { data } = await calendar.events.update({
+        const { data } = await calendar.events.patch({
           calendarId,
-          eventId,
-          requestBody: updatedEvent,
+          eventId: target.id!,
+          requestBody: toEventRequestBody(
+            recurring && scope === "all" && instance
+              ? shiftSeriesTimes(series, instance, changes)
+              : changes
+          ),
           sendUpdates: "all",
+          conferenceDataVersion: 1,
         });
 
-        const updated = {
-          id: data.id,
-          summary: data.summary,
-          description: data.description,
-          location: data.location,
-          start: data.start?.dateTime,
-          end: data.end?.dateTime,
-          attendees: data.attendees?.map((a: any) => a.email) || [],
-          link: data.htmlLink,
-        };
+        return formatResponse(
+          recurring ? { scope, ...summarizeEvent(data) } : summarizeEvent(data)
+        );
+      });
+    }
+  );
+
+  server.tool(
+    "calendar_list_instances",
+    "List the occurrences of a recurring event, with their instance IDs for editing a single occurrence",
+    {
+      eventId: z.string().describe("ID of the recurring event"),
+      timeMin: z
+        .string()
+        .optional()
+        .describe(
+          "Only occurrences ending after this time, ISO or natural language"
+        ),
+      timeMax: z
+        .string()
+        .optional()
+        .describe(
+          "Only occurrences starting before this time, ISO or natural language"
+        ),
+      maxResults: z
+        .number()
+        .optional()
+        .describe("Maximum number of occurrences to return (default: 25)"),
+      showDeleted: z
+        .boolean()
+        .optional()
+        .describe("Include cancelled occurrences (default: false)"),
+      calendarId: z
+        .string()
+        .optional()
+        .describe(
+          "ID of the calendar containing the event (defaults to primary calendar)"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (calendar: calendar_v3.Calendar) => {
+        const instances = await listInstances(calendar, {
+          ...params,
+          eventId: params.eventId,
+          timeMin: params.timeMin ? parseDateTime(params.timeMin) : undefined,
+          timeMax: params.timeMax ? parseDateTime(params.timeMax) : undefined,
+        });
+        return formatResponse({ instances, count: instances.length });
+      });
+    }
+  );
+
+  server.tool(
+    "calendar_respond_to_event",
+    "Accept, decline or tentatively accept an event you were invited to, with an optional note to the organizer",
+    {
+      eventId: z
+        .string()
+        .describe(
+          "ID of the event; an occurrence ID answers one occurrence, a series ID every occurrence"
+        ),
+      response: z
+        .enum(["accepted", "declined", "tentative"])
+        .describe("Your response to the invitation"),
+      comment: z
+        .string()
+        .optional()
+        .describe("Note to the organizer, e.g. 'Running 10 minutes late'"),
+      calendarId: z
+        .string()
+        .optional()
+        .describe(
+          "ID of the calendar containing the event (defaults to primary calendar)"
+        ),
+    },
+    async (params) => {
+      return handleTool(config, async (calendar: calendar_v3.Calendar) => {
+        const result = await respondToEvent(calendar, {
+          ...params,
+          eventId: params.eventId,
+          response: params.response as RsvpResponse,
+        });
+        return formatResponse(result);
+      });
+    }
+  );
 
-        return formatResponse(updated);
+  server.tool(
+    "calendar_list_invitations",
+    "List upcoming events you were invited to and have not responded to yet",
+    {
+      timeMin: z
+        .string()
+        .optional()
+        .describe(
+          "Start of the range in ISO format or natural language (default: now)"
+        ),
+      timeMax: z
+        .string()
+        .optional()
+        .describe(
+          "End of the range in ISO format or natural language (default: 30 days after the start)"
+        ),
+      maxResults: z
+        .number()
+        .optional()
+        .describe("Maximum number of invitations to return (default: 25)"),
+      timeZone: z
+        .string()
+        .optional()
+        .describe(
+          "IANA time zone to show event times in (default: the server's time zone)"
+        ),
+      calendarId: z
+        .string()
+        .optional()
+        .describe("ID of the calendar to check (defaults to primary calendar)"),
+    },
+    async (params) => {
+      return handleTool(config, async (calendar: calendar_v3.Calendar) => {
+        const timeZone = params.timeZone || getLocalTimeZone();
+        const timeMin = params.timeMin
+          ? parseDateTime(params.timeMin)
+          : new Date().toISOString();
+        const timeMax = params.timeMax
+          ? parseDateTime(params.timeMax)
+          : new Date(new Date(timeMin).getTime() + 30 * 86400000).toISOString();
+
+        const invitations = await listPendingInvitations(calendar, {
+          ...params,
+          timeMin,
+          timeMax,
+          timeZone,
+        });
+        return formatResponse({
+          invitations,
+          count: invitations.length,
+          timeZone,
+        });
       });
     }
   );
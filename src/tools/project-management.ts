@@ -6,6 +6,7 @@ import * as path from "path";
 import * as os from "os";
 import { v4 as uuidv4 } from "uuid";
 import { configManager } from "../utils/configManager.js";
+import { parseDate } from "../modules/date-parser.js";
 
 // Configuration using centralized config
 const projectConfig = configManager.getProjectConfig();
@@ -336,16 +337,7 @@ function createDatedBackup(
 // Date Utility Functions
 function formatRelativeDate(dateString?: string): string | undefined {
   if (!dateString) return undefined;
-
-  if (dateString === "today") {
-    return new Date().toISOString().split("T")[0];
-  } else if (dateString === "tomorrow") {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow.toISOString().split("T")[0];
-  }
-
-  return dateString;
+  return parseDate(dateString);
 }
 
 // Task management data file configuration
@@ -702,11 +694,13 @@ export function registerProjectManagementTools(
             },
             due_date: {
               type: "string",
-              description: "Task due date (YYYY-MM-DD)",
+              description:
+                "Task due date (YYYY-MM-DD or natural language like 'next Friday')",
             },
             start_date: {
               type: "string",
-              description: "Task start date (YYYY-MM-DD)",
+              description:
+                "Task start date (YYYY-MM-DD or natural language like 'tomorrow')",
             },
             status: {
               type: "string",
@@ -926,9 +920,9 @@ export function registerProjectManagementTools(
             if (taskData.priority !== undefined)
               updates.priority = taskData.priority;
             if (taskData.due_date !== undefined)
-              updates.due_date = taskData.due_date;
+              updates.due_date = formatRelativeDate(taskData.due_date);
             if (taskData.start_date !== undefined)
-              updates.start_date = taskData.start_date;
+              updates.start_date = formatRelativeDate(taskData.start_date);
             if (taskData.percentage_complete !== undefined)
               updates.percentage_complete = taskData.percentage_complete;
             if (taskData.remarks !== undefined)
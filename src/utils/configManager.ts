@@ -74,6 +74,13 @@ export class ConfigManager {
         "facebook-page-access-token",
         "facebook-page-id",
         "mcp-config-dir",
+        "gmail-attachments-dir",
+        "gmail-export-dir",
+        "gmail-push-port",
+        "gmail-push-host",
+        "gmail-push-token",
+        "gmail-pubsub-endpoint",
+        "gmail-pubsub-subscription",
         "oauth-port",
         "project-source-dir",
         "project-target-dir",
@@ -196,6 +203,41 @@ export class ConfigManager {
         mcpConfigDir,
         "facebook-credentials.json"
       ),
+
+      // Local Gmail data
+      gmailCacheDir: path.join(mcpConfigDir, "gmail-cache"),
+      gmailSchedulerPath: path.join(mcpConfigDir, "gmail-scheduled-jobs.json"),
+      gmailMergeDir: path.join(mcpConfigDir, "mail-merge"),
+      gmailTemplatesPath: path.join(mcpConfigDir, "gmail-templates.json"),
+      gmailWatchPath: path.join(mcpConfigDir, "gmail-watch.json"),
+      gmailAttachmentsDir: this.getValue(
+        "gmailAttachmentsDir",
+        "GMAIL_ATTACHMENTS_DIR",
+        path.join(mcpConfigDir, "attachments")
+      ),
+      gmailExportDir: this.getValue(
+        "gmailExportDir",
+        "GMAIL_EXPORT_DIR",
+        path.join(mcpConfigDir, "exports")
+      ),
+
+      // Gmail watch notification delivery, both optional
+      gmailPushPort: this.getValue("gmailPushPort", "GMAIL_PUSH_PORT"),
+      gmailPushHost: this.getValue(
+        "gmailPushHost",
+        "GMAIL_PUSH_HOST",
+        "127.0.0.1"
+      ),
+      gmailPushToken: this.getValue("gmailPushToken", "GMAIL_PUSH_TOKEN"),
+      gmailPubsubEndpoint: this.getValue(
+        "gmailPubsubEndpoint",
+        "GMAIL_PUBSUB_ENDPOINT",
+        process.env.PUBSUB_EMULATOR_HOST
+      ),
+      gmailPubsubSubscription: this.getValue(
+        "gmailPubsubSubscription",
+        "GMAIL_PUBSUB_SUBSCRIPTION"
+      ),
     };
   }
 
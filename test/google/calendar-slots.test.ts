@@ -0,0 +1,141 @@
+import { calendar_v3 } from "googleapis";
+import {
+  FreeSlotOptions,
+  findFreeSlots,
+} from "../../src/modules/calendar-slots.js";
+
+type Busy = Record<string, { start: string; end: string }[]>;
+
+// A freebusy query answering from `busy`, keeping the request it was sent
+const mockCalendar = (busy: Busy = {}) => {
+  const requests: calendar_v3.Schema$FreeBusyRequest[] = [];
+  const calendar = {
+    freebusy: {
+      query: async (params: {
+        requestBody: calendar_v3.Schema$FreeBusyRequest;
+      }) => {
+        requests.push(params.requestBody);
+        return {
+          data: {
+            calendars: Object.fromEntries(
+              (params.requestBody.items || []).map(({ id }) => [
+                id,
+                { busy: busy[id!] || [] },
+              ])
+            ),
+          },
+        };
+      },
+    },
+  } as unknown as calendar_v3.Calendar;
+  return { calendar, requests };
+};
+
+// Monday, January 7 2030
+const find = (options: Partial<FreeSlotOptions>, busy?: Busy) =>
+  findFreeSlots(mockCalendar(busy).calendar, {
+    timeMin: "2030-01-07T00:00:00Z",
+    timeMax: "2030-01-08T00:00:00Z",
+    durationMinutes: 30,
+    maxResults: 50,
+    ...options,
+  });
+
+const starts = (result: Awaited<ReturnType<typeof findFreeSlots>>) =>
+  result.slots.map(({ start }) => start).sort();
+
+describe("findFreeSlots", () => {
+  it("aligns candidates with working hours in half-hour offset zones", async () => {
+    // Whole UTC hours fall on the half hour in India
+    const result = await find({
+      timeMin: "2030-01-07T09:10:00+05:30",
+      timeMax: "2030-01-08T00:00:00+05:30",
+      timeZone: "Asia/Kolkata",
+      stepMinutes: 60,
+      workingHours: { start: "09:00", end: "13:00" },
+    });
+
+    expect(starts(result)).toEqual([
+      "2030-01-07T10:00:00+05:30",
+      "2030-01-07T11:00:00+05:30",
+      "2030-01-07T12:00:00+05:30",
+    ]);
+  });
+
+  it("skips busy time with its buffer and queries every calendar once", async () => {
+    const { calendar, requests } = mockCalendar({
+      primary: [{ start: "2030-01-07T10:00:00Z", end: "2030-01-07T10:30:00Z" }],
+    });
+    const result = await findFreeSlots(calendar, {
+      timeMin: "2030-01-07T00:00:00Z",
+      timeMax: "2030-01-08T00:00:00Z",
+      durationMinutes: 30,
+      bufferMinutes: 15,
+      timeZone: "UTC",
+      workingHours: { start: "09:00", end: "12:00" },
+      optionalAttendees: ["ann@example.com"],
+    });
+
+    expect(starts(result)).toEqual([
+      "2030-01-07T09:00:00+00:00",
+      "2030-01-07T11:00:00+00:00",
+      "2030-01-07T11:30:00+00:00",
+    ]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].items).toEqual([
+      { id: "primary" },
+      { id: "ann@example.com" },
+    ]);
+  });
+
+  it("keeps slots inside each attendee's own working hours", async () => {
+    const result = await find({
+      timeZone: "America/New_York",
+      timeMin: "2030-01-07T00:00:00-05:00",
+      timeMax: "2030-01-08T00:00:00-05:00",
+      attendeeTimeZones: { "ann@example.com": "Europe/London" },
+    });
+
+    // London is five hours ahead, so only New York mornings work for both
+    expect(starts(result)).toEqual([
+      "2030-01-07T09:00:00-05:00",
+      "2030-01-07T09:30:00-05:00",
+      "2030-01-07T10:00:00-05:00",
+      "2030-01-07T10:30:00-05:00",
+      "2030-01-07T11:00:00-05:00",
+      "2030-01-07T11:30:00-05:00",
+    ]);
+    expect(
+      result.slots.find(({ start }) => start.includes("T11:30"))?.localTimes
+    ).toEqual({
+      "America/New_York": "Mon, Jan 7 11:30-12:00",
+      "ann@example.com": "Mon, Jan 7 16:30-17:00",
+    });
+  });
+
+  it("allows working hours that end at midnight", async () => {
+    const result = await find({
+      durationMinutes: 60,
+      timeMax: "2030-01-08T06:00:00Z",
+      timeZone: "UTC",
+      workingHours: { start: "22:00", end: "24:00" },
+    });
+
+    expect(result.slots.map(({ start, end }) => [start, end]).sort()).toEqual([
+      ["2030-01-07T22:00:00+00:00", "2030-01-07T23:00:00+00:00"],
+      ["2030-01-07T23:00:00+00:00", "2030-01-08T00:00:00+00:00"],
+    ]);
+  });
+
+  it("rejects working hours that do not end after they start", async () => {
+    await expect(
+      find({ workingHours: { start: "17:00", end: "09:00" } })
+    ).rejects.toThrow("Working hours must end after they start");
+    await expect(
+      find({ workingHours: { start: "09:00", end: "09:00" } })
+    ).rejects.toThrow("Working hours must end after they start");
+    await expect(
+      find({ workingHours: { start: "09:00", end: "24:30" } })
+    ).rejects.toThrow('Invalid end time "24:30"');
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  DateParseOptions,
+  parseDate,
+  parseDateExpression,
+  parseDateTime,
+  parseDuration,
+} from "../../src/modules/date-parser.js";
+
+// Monday, March 10 2025, 09:30 in New York
+const options: DateParseOptions = {
+  now: new Date("2025-03-10T13:30:00Z"),
+  timeZone: "America/New_York",
+};
+
+const parse = (input: string, extra: DateParseOptions = {}) =>
+  parseDateExpression(input, { ...options, ...extra });
+
+const iso = (input: string, extra: DateParseOptions = {}) =>
+  parseDateTime(input, { ...options, ...extra });
+
+const range = (input: string) => {
+  const result = parse(input);
+  return [result.start.toISOString(), result.end?.toISOString()];
+};
+
+describe("parseDateExpression", () => {
+  it("reads ISO dates and times in the configured zone", () => {
+    expect(iso("2025-03-14T15:00")).toBe("2025-03-14T19:00:00.000Z");
+    expect(iso("2025-03-14T15:00Z")).toBe("2025-03-14T15:00:00.000Z");
+    expect(parse("2025-03-14")).toMatchObject({
+      date: "2025-03-14",
+      allDay: true,
+      timeZone: "America/New_York",
+    });
+  });
+
+  it("resolves relative days and weekdays", () => {
+    expect(parseDate("today", options)).toBe("2025-03-10");
+    expect(parseDate("tomorrow", options)).toBe("2025-03-11");
+    expect(parseDate("day after tomorrow", options)).toBe("2025-03-12");
+    expect(parseDate("yesterday", options)).toBe("2025-03-09");
+    // A bare weekday is the next one, today included
+    expect(parseDate("Monday", options)).toBe("2025-03-10");
+    expect(parseDate("Tuesday", options)).toBe("2025-03-11");
+    // "next" is that day in next week, so next Tuesday is 8 days out
+    expect(parseDate("next Tuesday", options)).toBe("2025-03-18");
+    expect(parseDate("next Sunday", options)).toBe("2025-03-23");
+    expect(parseDate("last Friday", options)).toBe("2025-03-07");
+    expect(parseDate("next week", options)).toBe("2025-03-17");
+  });
+
+  it("rolls a month and day without a year that has passed to next year", () => {
+    expect(parseDate("March 14", options)).toBe("2025-03-14");
+    expect(parseDate("14th of March", options)).toBe("2025-03-14");
+    expect(parseDate("Feb 3", options)).toBe("2026-02-03");
+    expect(parseDate("Feb 3, 2025", options)).toBe("2025-02-03");
+  });
+
+  it("reads bare hours up to 6 and times with minutes as afternoon", () => {
+    expect(iso("tomorrow at 3")).toBe("2025-03-11T19:00:00.000Z");
+    expect(iso("tomorrow 3:30")).toBe("2025-03-11T19:30:00.000Z");
+    expect(iso("tomorrow at 9")).toBe("2025-03-11T13:00:00.000Z");
+    expect(iso("tomorrow 05:00")).toBe("2025-03-11T09:00:00.000Z");
+    expect(iso("tomorrow 9am")).toBe("2025-03-11T13:00:00.000Z");
+    expect(iso("tomorrow noon")).toBe("2025-03-11T16:00:00.000Z");
+    expect(iso("tomorrow morning")).toBe("2025-03-11T13:00:00.000Z");
+  });
+
+  it("handles relative offsets and durations", () => {
+    expect(iso("in 2 hours")).toBe("2025-03-10T15:30:00.000Z");
+    // Still 09:30 on the wall clock, before the DST change
+    expect(iso("3 days ago")).toBe("2025-03-07T14:30:00.000Z");
+    expect(range("March 14 10:00 for 45 minutes")).toEqual([
+      "2025-03-14T14:00:00.000Z",
+      "2025-03-14T14:45:00.000Z",
+    ]);
+    // Task due dates are parsed to a calendar date
+    expect(parseDate("in 2 weeks", options)).toBe("2025-03-24");
+    expect(parseDate("next month", options)).toBe("2025-04-01");
+    expect(parseDuration("1h 30m")).toBe(90);
+    expect(parseDuration("2 days")).toBe(2880);
+  });
+
+  it("keeps wall times across a DST change", () => {
+    // New York moved to daylight time on March 9 2025
+    expect(iso("March 8 2025 9am")).toBe("2025-03-08T14:00:00.000Z");
+    expect(iso("March 9 2025 9am")).toBe("2025-03-09T13:00:00.000Z");
+    expect(iso("in 1 week", { now: new Date("2025-03-03T14:00:00Z") })).toBe(
+      "2025-03-10T13:00:00.000Z"
+    );
+  });
+
+  it("parses time ranges, including ones that cross midnight", () => {
+    expect(range("2-4pm Friday")).toEqual([
+      "2025-03-14T18:00:00.000Z",
+      "2025-03-14T20:00:00.000Z",
+    ]);
+    expect(range("11-1pm Friday")).toEqual([
+      "2025-03-14T15:00:00.000Z",
+      "2025-03-14T17:00:00.000Z",
+    ]);
+    expect(range("Friday 10pm-1am")).toEqual([
+      "2025-03-15T02:00:00.000Z",
+      "2025-03-15T05:00:00.000Z",
+    ]);
+  });
+
+  it("splits ranges written as two expressions", () => {
+    expect(range("Monday 9am to Tuesday 5pm")).toEqual([
+      "2025-03-10T13:00:00.000Z",
+      "2025-03-11T21:00:00.000Z",
+    ]);
+    // The date named on one side applies to both
+    expect(range("2pm to 4pm Friday")).toEqual([
+      "2025-03-14T18:00:00.000Z",
+      "2025-03-14T20:00:00.000Z",
+    ]);
+    expect(range("10pm to 1am Friday")).toEqual([
+      "2025-03-15T02:00:00.000Z",
+      "2025-03-15T05:00:00.000Z",
+    ]);
+    // All-day ranges end at the midnight after their last day
+    expect(parse("March 12 to March 14")).toMatchObject({
+      date: "2025-03-12",
+      endDate: "2025-03-15",
+      allDay: true,
+    });
+  });
+
+  it("reads trailing time zones", () => {
+    expect(parse("tomorrow 3pm Europe/Berlin")).toMatchObject({
+      start: new Date("2025-03-11T14:00:00Z"),
+      timeZone: "Europe/Berlin",
+    });
+    expect(iso("tomorrow 3pm UTC+05:30")).toBe("2025-03-11T09:30:00.000Z");
+    expect(iso("tomorrow 3pm -04:00")).toBe("2025-03-11T19:00:00.000Z");
+    expect(parse("tomorrow 3pm PT").timeZone).toBe("America/Los_Angeles");
+    // The zone on the end of a range applies to its start
+    expect(range("Friday 9am to 5pm CET")).toEqual([
+      "2025-03-14T08:00:00.000Z",
+      "2025-03-14T16:00:00.000Z",
+    ]);
+  });
+
+  it("reads abbreviations with their own offset but the zone that uses them", () => {
+    // PST in summer still means UTC-8 for the instant
+    expect(parse("June 3 3pm PST")).toMatchObject({
+      start: new Date("2025-06-03T23:00:00Z"),
+      timeZone: "America/Los_Angeles",
+    });
+    expect(parse("June 3 3pm CEST")).toMatchObject({
+      start: new Date("2025-06-03T13:00:00Z"),
+      timeZone: "Europe/Paris",
+    });
+  });
+
+  it("rejects input it does not fully understand", () => {
+    expect(() => parse("")).toThrow(/it is empty/);
+    expect(() => parse("tomorrow at the pub")).toThrow(
+      /"pub" was not recognized/
+    );
+    expect(() => parse("February 30")).toThrow(/no such calendar date/);
+    expect(() => parse("tomorrow 25:00")).toThrow(/Could not understand/);
+    expect(() => parse("tomorrow 3pm", { timeZone: "Mars/Olympus" })).toThrow();
+    expect(() => parseDuration("soon")).toThrow(/duration "soon"/);
+  });
+});
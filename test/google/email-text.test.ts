@@ -0,0 +1,113 @@
+import {
+  cleanMessageText,
+  htmlToText,
+  stripQuotedHistory,
+} from "../../src/modules/email-text.js";
+
+describe("cleanMessageText", () => {
+  it("drops a Gmail reply header and the quoted lines after it", () => {
+    expect(
+      cleanMessageText(
+        [
+          "Sounds good, see you then.",
+          "",
+          "On Mon, Jan 6, 2025 at 10:15 AM Ann Smith <ann@example.com> wrote:",
+          "",
+          "> Can we meet on Tuesday?",
+          "> Ann",
+        ].join("\n")
+      )
+    ).toBe("Sounds good, see you then.");
+  });
+
+  it("drops a reply header wrapped onto two lines", () => {
+    expect(
+      cleanMessageText(
+        [
+          "Thanks!",
+          "",
+          "On Mon, Jan 6, 2025 at 10:15 AM Ann Smith with a long name <",
+          "ann@example.com> wrote:",
+          "> Quoted",
+        ].join("\n")
+      )
+    ).toBe("Thanks!");
+  });
+
+  it("drops Outlook original message blocks and headers", () => {
+    expect(
+      cleanMessageText(
+        [
+          "Approved.",
+          "",
+          "-----Original Message-----",
+          "From: Bob <bob@example.com>",
+          "Sent: Monday, January 6, 2025 10:15 AM",
+          "Subject: Budget",
+          "",
+          "Please approve the budget.",
+        ].join("\n")
+      )
+    ).toBe("Approved.");
+    expect(
+      cleanMessageText(
+        [
+          "Approved.",
+          "",
+          "From: Bob <bob@example.com>",
+          "Sent: Monday, January 6, 2025 10:15 AM",
+          "To: Ann <ann@example.com>",
+          "",
+          "Please approve the budget.",
+        ].join("\n")
+      )
+    ).toBe("Approved.");
+  });
+
+  it("drops forwarded messages", () => {
+    expect(
+      cleanMessageText(
+        [
+          "FYI, see below.",
+          "",
+          "---------- Forwarded message ---------",
+          "From: Bob <bob@example.com>",
+          "Date: Mon, Jan 6, 2025 at 10:15 AM",
+          "Subject: Budget",
+          "",
+          "Please approve the budget.",
+        ].join("\n")
+      )
+    ).toBe("FYI, see below.");
+  });
+
+  it("keeps text that only mentions someone writing", () => {
+    const text = [
+      "On Monday the team wrote: the plan is below.",
+      "On the other hand, Peter wrote:",
+      "a long email about it.",
+      "On Jan 6, 2025 Ann <ann@example.com> wrote:",
+      "the summary we agreed on.",
+    ].join("\n");
+    expect(stripQuotedHistory(text)).toBe(text);
+  });
+
+  it("drops the signature", () => {
+    expect(cleanMessageText("See you.\n\n-- \nAnn\nAcme Inc.")).toBe(
+      "See you."
+    );
+    expect(cleanMessageText("Yes.\n\nSent from my iPhone")).toBe("Yes.");
+  });
+
+  it("cleans HTML-only messages once converted to text", () => {
+    const html = [
+      "<html><head><style>p { color: red }</style></head><body>",
+      "<p>Works for me &amp; Bob.</p>",
+      '<div class="gmail_quote">',
+      "<div>On Mon, Jan 6, 2025 at 10:15 AM Ann &lt;ann@example.com&gt; wrote:<br></div>",
+      "<blockquote><p>Lunch on Friday?</p></blockquote>",
+      "</div></body></html>",
+    ].join("");
+    expect(cleanMessageText(htmlToText(html))).toBe("Works for me & Bob.");
+  });
+});
@@ -0,0 +1,185 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { gmail_v1 } from "googleapis";
+import {
+  exportMessages,
+  importMessages,
+} from "../../src/modules/gmail-archive.js";
+
+type StoredMessage = { id: string; raw: string; labelIds: string[] };
+
+const rawMessage = (messageId: string, subject: string, body: string) =>
+  [
+    "From: Ann <ann@example.com>",
+    "To: me@example.com",
+    `Subject: ${subject}`,
+    `Message-ID: <${messageId}>`,
+    "Date: Mon, 1 Jan 2024 10:00:00 +0000",
+    "",
+    body,
+    "",
+  ].join("\r\n");
+
+// Just enough of the Gmail API for exporting and importing. Imported raw
+// messages are collected in `imported`, and `existing` lists the Message-IDs
+// already in the mailbox.
+const mockGmail = (
+  messages: StoredMessage[],
+  labels: { id: string; name: string }[],
+  imported: string[] = [],
+  existing: string[] = []
+) =>
+  ({
+    users: {
+      labels: { list: async () => ({ data: { labels } }) },
+      messages: {
+        list: async (params: { q?: string }) => ({
+          data: {
+            messages: params.q?.startsWith("rfc822msgid:")
+              ? existing
+                  .filter((id) => params.q === `rfc822msgid:${id}`)
+                  .map((id) => ({ id }))
+              : messages.map(({ id }) => ({ id })),
+          },
+        }),
+        import: async (params: { requestBody: { raw: string } }) => {
+          imported.push(
+            Buffer.from(params.requestBody.raw, "base64url").toString("latin1")
+          );
+          return { data: { id: `imported-${imported.length}` } };
+        },
+        get: async (params: { id: string }) => {
+          const message = messages.find(({ id }) => id === params.id)!;
+          return {
+            data: {
+              id: message.id,
+              labelIds: message.labelIds,
+              internalDate: String(Date.UTC(2024, 0, 1)),
+              raw: Buffer.from(message.raw).toString("base64url"),
+            },
+          };
+        },
+      },
+    },
+  } as unknown as gmail_v1.Gmail);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "gmail-archive-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("mbox export and import", () => {
+  it("round-trips labels outside Latin-1 and labels with commas", async () => {
+    const labels = [
+      { id: "Label_1", name: "Проекты" },
+      { id: "Label_2", name: "日本語/メモ" },
+      { id: "Label_3", name: "Clients, Inc" },
+      { id: "Label_4", name: 'Quotes "and" \\ slashes' },
+      { id: "Label_5", name: "🎉 Party" },
+    ];
+    const gmail = mockGmail(
+      [
+        {
+          id: "m1",
+          raw: rawMessage("m1@example.com", "Labels", "Hello"),
+          labelIds: labels.map(({ id }) => id),
+        },
+      ],
+      labels
+    );
+
+    await exportMessages(gmail, { q: "in:anywhere", outputDir: dir });
+    const result = await importMessages(gmail, { path: dir, dryRun: true });
+
+    expect(result.messages?.map((message) => message.labels)).toEqual([
+      labels.map(({ name }) => name),
+    ]);
+  });
+
+  it("quotes and un-quotes From lines in message bodies (mboxrd)", async () => {
+    const raw = rawMessage(
+      "m1@example.com",
+      "Quoting",
+      [
+        "From the start of a line",
+        ">From an already quoted line",
+        "",
+        "From after a blank line",
+      ].join("\r\n")
+    );
+    const imported: string[] = [];
+    const gmail = mockGmail([{ id: "m1", raw, labelIds: [] }], [], imported);
+
+    const exported = await exportMessages(gmail, {
+      q: "in:anywhere",
+      outputDir: dir,
+    });
+    const mbox = fs.readFileSync(exported.file!, "latin1");
+    expect(mbox).toContain("\n>From the start of a line\n");
+    expect(mbox).toContain("\n>>From an already quoted line\n");
+    expect(mbox).toContain("\n\n>From after a blank line\n");
+
+    const result = await importMessages(gmail, { path: dir });
+    expect(result.imported).toBe(1);
+    expect(imported).toEqual([raw]);
+  });
+
+  it("splits at From lines after a blank line and skips known Message-IDs", async () => {
+    const file = path.join(dir, "Archive.mbox");
+    fs.writeFileSync(
+      file,
+      [
+        "From ann@example.com Mon Jan  1 10:00:00 2024",
+        "Message-ID: <a@example.com>",
+        "Subject: First",
+        "",
+        "Unquoted body text",
+        "From here on it is still the first message",
+        "",
+        "From bob@example.com Mon Jan  1 11:00:00 2024",
+        "Message-ID: <b@example.com>",
+        "Subject: Second",
+        "",
+        "Already in the mailbox",
+        "",
+        "From ann@example.com Mon Jan  1 12:00:00 2024",
+        "Message-ID: <a@example.com>",
+        "Subject: First again",
+        "",
+        "Repeated in the same file",
+        "",
+      ].join("\n")
+    );
+    const imported: string[] = [];
+    const gmail = mockGmail([], [], imported, ["b@example.com"]);
+
+    const dryRun = await importMessages(gmail, { path: file, dryRun: true });
+    expect(
+      dryRun.messages?.map(({ subject, status }) => [subject, status])
+    ).toEqual([
+      ["First", "dry_run"],
+      ["Second", "duplicate"],
+      ["First again", "duplicate"],
+    ]);
+    expect(dryRun.wouldImport).toBe(1);
+
+    const result = await importMessages(gmail, { path: file });
+    expect(result).toMatchObject({ processed: 3, imported: 1, duplicates: 2 });
+    expect(imported).toEqual([
+      [
+        "Message-ID: <a@example.com>",
+        "Subject: First",
+        "",
+        "Unquoted body text",
+        "From here on it is still the first message",
+        "",
+      ].join("\r\n"),
+    ]);
+  });
+});
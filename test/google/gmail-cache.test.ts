@@ -0,0 +1,111 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { gmail_v1 } from "googleapis";
+import {
+  getGmailCacheDir,
+  listCachedMessages,
+  readCacheState,
+  syncGmailCache,
+} from "../../src/modules/gmail-cache.js";
+
+const message = (id: string, time: number) => ({
+  id,
+  threadId: id,
+  labelIds: ["INBOX"],
+  internalDate: String(time),
+  payload: { headers: [{ name: "Subject", value: `Message ${id}` }] },
+});
+
+const mockGmail = (
+  account: { emailAddress: string; historyId: string },
+  ids: string[],
+  failListing = false
+) =>
+  ({
+    users: {
+      getProfile: async () => ({ data: account }),
+      messages: {
+        list: async () => {
+          if (failListing) throw new Error("Quota exceeded");
+          return { data: { messages: ids.map((id) => ({ id })) } };
+        },
+        get: async (params: { id: string }) => ({
+          data: message(params.id, ids.indexOf(params.id)),
+        }),
+      },
+      history: {
+        list: async () => ({ data: { historyId: account.historyId } }),
+      },
+    },
+  } as unknown as gmail_v1.Gmail);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "gmail-cache-"));
+  process.env.MCP_CONFIG_DIR = dir;
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  delete process.env.MCP_CONFIG_DIR;
+});
+
+describe("syncGmailCache", () => {
+  const account = { emailAddress: "me@example.com", historyId: "10" };
+
+  it("keeps the cache and search index when a full sync fails", async () => {
+    await syncGmailCache(mockGmail(account, ["a", "b"]));
+    const searchIndex = path.join(getGmailCacheDir(), "search-index.json");
+    fs.writeFileSync(searchIndex, "{}");
+
+    await expect(
+      syncGmailCache(mockGmail(account, [], true), { reset: true })
+    ).rejects.toThrow("Quota exceeded");
+
+    expect(listCachedMessages().total).toBe(2);
+    expect(readCacheState().historyId).toBe("10");
+    expect(fs.existsSync(searchIndex)).toBe(true);
+  });
+
+  it("replaces the cache with a full sync when the account changes", async () => {
+    await syncGmailCache(mockGmail(account, ["a", "b"]));
+    expect(
+      (await syncGmailCache(mockGmail({ ...account, historyId: "11" }, [])))
+        .mode
+    ).toBe("incremental");
+
+    const other = { emailAddress: "other@example.com", historyId: "3" };
+    const result = await syncGmailCache(mockGmail(other, ["c"]));
+
+    expect(result.mode).toBe("full");
+    expect(readCacheState().emailAddress).toBe("other@example.com");
+    expect(listCachedMessages().messages.map(({ id }) => id)).toEqual(["c"]);
+  });
+});
+
+describe("listCachedMessages", () => {
+  it("pages with its own cursor and rejects Gmail page tokens", async () => {
+    await syncGmailCache(
+      mockGmail({ emailAddress: "me@example.com", historyId: "1" }, [
+        "a",
+        "b",
+        "c",
+      ])
+    );
+
+    const first = listCachedMessages({ maxResults: 2 });
+    const second = listCachedMessages({
+      maxResults: 2,
+      pageToken: first.nextPageToken,
+    });
+
+    expect(first.messages.map(({ id }) => id)).toEqual(["c", "b"]);
+    expect(second.messages.map(({ id }) => id)).toEqual(["a"]);
+    expect(second.nextPageToken).toBeUndefined();
+    expect(() => listCachedMessages({ pageToken: "CAIQAA" })).toThrow(
+      /not returned by a cached listing/
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  ScheduledJob,
+  claimDueJobs,
+  readScheduledJobs,
+} from "../../src/modules/gmail-scheduler.js";
+
+const minutes = (n: number) => new Date(Date.now() + n * 60 * 1000);
+
+const job = (id: string, fields: Partial<ScheduledJob> = {}): ScheduledJob => ({
+  id,
+  type: "unsnooze",
+  runAt: minutes(-1).toISOString(),
+  status: "pending",
+  createdAt: minutes(-10).toISOString(),
+  threadId: `thread-${id}`,
+  ...fields,
+});
+
+let dir: string;
+let jobsPath: string;
+
+const writeJobs = (jobs: ScheduledJob[]) =>
+  fs.writeFileSync(jobsPath, JSON.stringify(jobs));
+
+const jobById = (id: string) =>
+  readScheduledJobs().find((scheduled) => scheduled.id === id)!;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "gmail-scheduler-"));
+  process.env.MCP_CONFIG_DIR = dir;
+  jobsPath = path.join(dir, "gmail-scheduled-jobs.json");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  delete process.env.MCP_CONFIG_DIR;
+});
+
+describe("claimDueJobs", () => {
+  it("claims due jobs for this process with a lease", async () => {
+    writeJobs([
+      job("due"),
+      job("later", { runAt: minutes(10).toISOString() }),
+      job("cancelled", { status: "cancelled" }),
+    ]);
+
+    const claimed = await claimDueJobs(new Date());
+
+    expect(claimed.map(({ id }) => id)).toEqual(["due"]);
+    const due = jobById("due");
+    expect(due.status).toBe("running");
+    expect(due.owner?.startsWith(`${os.hostname()}:${process.pid}:`)).toBe(
+      true
+    );
+    expect(new Date(due.leaseUntil!) > minutes(4)).toBe(true);
+    expect(jobById("later").status).toBe("pending");
+    expect(jobById("cancelled").status).toBe("cancelled");
+
+    // Claimed jobs are not handed out twice
+    expect(await claimDueJobs(new Date())).toEqual([]);
+  });
+
+  it("leaves jobs leased by another process until the lease expires", async () => {
+    writeJobs([
+      job("leased", {
+        status: "running",
+        owner: "other-host:1:abcd",
+        leaseUntil: minutes(2).toISOString(),
+      }),
+      job("expired", {
+        status: "running",
+        owner: "other-host:1:abcd",
+        leaseUntil: minutes(-1).toISOString(),
+      }),
+    ]);
+
+    const claimed = await claimDueJobs(new Date());
+
+    expect(claimed.map(({ id }) => id)).toEqual(["expired"]);
+    expect(jobById("leased").owner).toBe("other-host:1:abcd");
+    expect(jobById("expired").owner).not.toBe("other-host:1:abcd");
+  });
+
+  it("fails interrupted draft sends instead of sending them again", async () => {
+    writeJobs([
+      job("send", {
+        type: "send_draft",
+        draftId: "d1",
+        status: "running",
+        owner: "other-host:1:abcd",
+        leaseUntil: minutes(-1).toISOString(),
+      }),
+    ]);
+
+    expect(await claimDueJobs(new Date())).toEqual([]);
+    expect(jobById("send")).toMatchObject({
+      status: "failed",
+      error: expect.stringMatching(/Interrupted/),
+    });
+  });
+
+  it("waits for the job list lock without blocking the event loop", async () => {
+    writeJobs([job("due")]);
+    const lockPath = `${jobsPath}.lock`;
+    fs.writeFileSync(lockPath, "");
+    // Only runs while claimDueJobs is waiting if the wait yields
+    setTimeout(() => fs.rmSync(lockPath), 100);
+
+    const claimed = await claimDueJobs(new Date());
+
+    expect(claimed.map(({ id }) => id)).toEqual(["due"]);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { gmail_v1 } from "googleapis";
+import { syncGmailCache } from "../../src/modules/gmail-cache.js";
+import {
+  highlightSnippet,
+  searchLocalMessages,
+} from "../../src/modules/gmail-search.js";
+
+type TestMessage = {
+  id: string;
+  from: string;
+  subject: string;
+  body: string;
+  labelIds?: string[];
+};
+
+const messages: TestMessage[] = [
+  {
+    id: "budget",
+    from: "Ann <ann@example.com>",
+    subject: "Quarterly budget review",
+    body: "Please look at the attached numbers before Friday.",
+    labelIds: ["INBOX", "IMPORTANT"],
+  },
+  {
+    id: "lunch",
+    from: "Bob <bob@example.com>",
+    subject: "Lunch",
+    body: "The budget for lunch is small, so keep the invoices.",
+  },
+  {
+    id: "invoice",
+    from: "Billing <billing@example.com>",
+    subject: "Invoice 2024",
+    body: "Your invoice is ready.",
+  },
+  {
+    id: "hiking",
+    from: "Ann <ann@example.com>",
+    subject: "Weekend",
+    body: "Shall we go hiking on Saturday?",
+  },
+];
+
+// Messages are a day apart, the last one newest
+const mockGmail = () =>
+  ({
+    users: {
+      getProfile: async () => ({
+        data: { emailAddress: "me@example.com", historyId: "1" },
+      }),
+      messages: {
+        list: async () => ({
+          data: { messages: messages.map(({ id }) => ({ id })) },
+        }),
+        get: async (params: { id: string }) => {
+          const index = messages.findIndex(({ id }) => id === params.id);
+          const message = messages[index];
+          return {
+            data: {
+              id: message.id,
+              threadId: message.id,
+              labelIds: message.labelIds || ["INBOX"],
+              internalDate: String(Date.UTC(2024, 0, 1 + index)),
+              payload: {
+                mimeType: "text/plain",
+                headers: [
+                  { name: "From", value: message.from },
+                  { name: "Subject", value: message.subject },
+                ],
+                body: {
+                  data: Buffer.from(message.body).toString("base64url"),
+                },
+              },
+            },
+          };
+        },
+      },
+    },
+  } as unknown as gmail_v1.Gmail);
+
+const ids = (...args: Parameters<typeof searchLocalMessages>) =>
+  searchLocalMessages(...args).results.map(({ id }) => id);
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "gmail-search-"));
+  process.env.MCP_CONFIG_DIR = dir;
+  await syncGmailCache(mockGmail());
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  delete process.env.MCP_CONFIG_DIR;
+});
+
+describe("searchLocalMessages", () => {
+  it("ranks subject matches above body matches", () => {
+    const { results, total } = searchLocalMessages("budget");
+
+    expect(results.map(({ id }) => id)).toEqual(["budget", "lunch"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(total).toBe(2);
+  });
+
+  it("ranks exact matches above prefix and typo matches", () => {
+    // "invoices" only starts with the query term
+    expect(ids("invoice")).toEqual(["invoice", "lunch"]);
+    expect(ids("invo")).toEqual(["invoice", "lunch"]);
+    expect(ids("budgit")).toEqual(["budget", "lunch"]);
+    expect(ids("lanch")).toEqual(["lunch"]);
+    // Prefixes need three letters, typos four and a swap counts twice
+    expect(ids("sat")).toEqual(["hiking"]);
+    expect(ids("lu")).toEqual([]);
+    expect(ids("hikign")).toEqual([]);
+  });
+
+  it("applies the metadata filters", () => {
+    expect(ids("", { from: "ann@" })).toEqual(["hiking", "budget"]);
+    expect(ids("budget", { label: "IMPORTANT" })).toEqual(["budget"]);
+    expect(ids("budget invoice", { after: "2024-01-02" })).toEqual([
+      "invoice",
+      "lunch",
+    ]);
+    expect(() => ids("budget", { before: "someday" })).toThrow(
+      "Invalid before date: someday"
+    );
+  });
+
+  it("highlights the matched terms in result snippets", () => {
+    const result = searchLocalMessages("invoices").results.find(
+      ({ id }) => id === "lunch"
+    );
+
+    expect(result?.snippet).toBe(
+      "The budget for lunch is small, so keep the **invoices.**"
+    );
+  });
+});
+
+describe("highlightSnippet", () => {
+  const words = Array.from({ length: 100 }, (_, i) => `word${i}`);
+
+  it("cuts a window around the first match", () => {
+    const text = [...words.slice(0, 50), "Budget!", ...words.slice(50)].join(
+      "\n "
+    );
+    const snippet = highlightSnippet(text, ["budget"]);
+
+    expect(snippet.startsWith("… word")).toBe(true);
+    expect(snippet.endsWith(" …")).toBe(true);
+    expect(snippet).toContain("word49 **Budget!** word50");
+    expect(snippet.indexOf("**")).toBeLessThanOrEqual(80);
+  });
+
+  it("starts at the beginning without a match", () => {
+    const text = words.join(" ");
+
+    expect(highlightSnippet(text, [])).toBe(text.slice(0, 200));
+    expect(highlightSnippet(text, ["missing"]).startsWith("word0 word1")).toBe(
+      true
+    );
+    expect(highlightSnippet("Short text", ["text"])).toBe("Short **text**");
+  });
+});
@@ -0,0 +1,136 @@
+import { gmail_v1 } from "googleapis";
+import { simpleParser } from "mailparser";
+import {
+  constructResponseMessage,
+  getReplyRecipients,
+  parseAddressList,
+} from "../../src/modules/gmail.js";
+
+const message = (headers: Record<string, string>): gmail_v1.Schema$Message => ({
+  id: "m1",
+  threadId: "t1",
+  payload: {
+    mimeType: "text/plain",
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+    body: { data: Buffer.from("Original text").toString("base64url") },
+  },
+});
+
+describe("parseAddressList", () => {
+  it("splits only on commas outside quotes and angle brackets", () => {
+    expect(
+      parseAddressList(
+        '"Smith, John" <john@example.com>, ann@example.com,' +
+          ' "Odd <, name" <odd@example.com>, <"weird,local"@example.com>'
+      )
+    ).toEqual([
+      '"Smith, John" <john@example.com>',
+      "ann@example.com",
+      '"Odd <, name" <odd@example.com>',
+      '<"weird,local"@example.com>',
+    ]);
+    expect(parseAddressList(" , ")).toEqual([]);
+    expect(parseAddressList(undefined)).toEqual([]);
+  });
+});
+
+describe("getReplyRecipients", () => {
+  const own = ["me@example.com", "Me Alias <alias@example.com>"];
+  const received = message({
+    From: '"Smith, John" <john@example.com>',
+    To: 'Me <ME@example.com>, "Doe, Jane" <jane@example.com>',
+    Cc: "alias@example.com, John <john@example.com>, team@example.com",
+  });
+
+  it("replies to the sender and keeps quoted commas in display names", () => {
+    expect(getReplyRecipients(received, own)).toEqual({
+      to: ['"Smith, John" <john@example.com>'],
+      cc: [],
+    });
+  });
+
+  it("copies everyone else on reply all, without our own addresses", () => {
+    expect(getReplyRecipients(received, own, true)).toEqual({
+      to: ['"Smith, John" <john@example.com>'],
+      cc: ['"Doe, Jane" <jane@example.com>', "team@example.com"],
+    });
+  });
+
+  it("prefers Reply-To over From", () => {
+    const withReplyTo = message({
+      From: "John <john@example.com>",
+      "Reply-To": "List <list@example.com>, alias@example.com",
+      To: "me@example.com",
+    });
+
+    expect(getReplyRecipients(withReplyTo, own, true)).toEqual({
+      to: ["List <list@example.com>"],
+      cc: [],
+    });
+  });
+
+  it("replies to the original recipients of a message we sent", () => {
+    const sent = message({
+      From: "Me Alias <alias@example.com>",
+      "Reply-To": "me@example.com",
+      To: "john@example.com, me@example.com",
+      Cc: "jane@example.com",
+    });
+
+    expect(getReplyRecipients(sent, own, true)).toEqual({
+      to: ["john@example.com"],
+      cc: ["jane@example.com"],
+    });
+  });
+});
+
+describe("constructResponseMessage", () => {
+  const original = message({
+    From: "John <john@example.com>",
+    To: "me@example.com",
+    Subject: "Plans",
+    "Message-ID": "<plans@example.com>",
+    References: "<earlier@example.com>",
+  });
+  const gmail = {
+    users: {
+      getProfile: async () => ({ data: { emailAddress: "me@example.com" } }),
+      messages: { get: async () => ({ data: original }) },
+    },
+  } as unknown as gmail_v1.Gmail;
+
+  const respond = async (mode: "reply" | "forward") => {
+    const { raw, threadId } = await constructResponseMessage(
+      gmail,
+      "m1",
+      mode,
+      {
+        to: mode === "forward" ? ["ann@example.com"] : [],
+        subject: "",
+        body: "See below",
+      }
+    );
+    expect(threadId).toBe("t1");
+    return simpleParser(Buffer.from(raw, "base64url"));
+  };
+
+  it("threads replies with In-Reply-To and References", async () => {
+    const reply = await respond("reply");
+
+    expect(reply.subject).toBe("Re: Plans");
+    expect(reply.inReplyTo).toBe("<plans@example.com>");
+    expect(reply.references).toEqual([
+      "<earlier@example.com>",
+      "<plans@example.com>",
+    ]);
+  });
+
+  it("sends forwards without reply headers", async () => {
+    const forward = await respond("forward");
+
+    expect(forward.subject).toBe("Fwd: Plans");
+    expect(forward.inReplyTo).toBeUndefined();
+    expect(forward.references).toBeUndefined();
+    expect(forward.text).toContain("Forwarded message");
+  });
+});
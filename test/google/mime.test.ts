@@ -0,0 +1,159 @@
+import { gmail_v1 } from "googleapis";
+import { AddressObject, simpleParser } from "mailparser";
+import { constructRawMessage, NewMessage } from "../../src/modules/gmail.js";
+import { encodeQuotedPrintable } from "../../src/modules/mime.js";
+
+// Without `from` or `threadId` no Gmail API call is made
+const gmail = {} as gmail_v1.Gmail;
+
+const roundTrip = async (message: NewMessage) => {
+  const raw = await constructRawMessage(gmail, message);
+  const source = Buffer.from(raw, "base64url");
+  return { source: source.toString(), parsed: await simpleParser(source) };
+};
+
+const addresses = (field: AddressObject | AddressObject[] | undefined) =>
+  [field || []].flat().flatMap((group) => group.value);
+
+describe("constructRawMessage", () => {
+  it("encodes non-ASCII subjects and display names as RFC 2047 words", async () => {
+    const subject = "Überprüfung der Rechnung — 請求書の確認 🧾 "
+      .repeat(3)
+      .trim();
+    const { source, parsed } = await roundTrip({
+      to: [
+        "José Müller <jose@example.com>",
+        "Zoë, the Admin <zoe@example.com>",
+      ],
+      cc: ["山田太郎 <yamada@example.jp>"],
+      subject,
+      body: "Hello",
+    });
+
+    expect(source).toMatch(/^[\x00-\x7f]*$/);
+    for (const line of source.split("\r\n"))
+      expect(line.length).toBeLessThanOrEqual(78);
+    expect(parsed.subject).toBe(subject);
+    expect(addresses(parsed.to)).toEqual([
+      { name: "José Müller", address: "jose@example.com" },
+      { name: "Zoë, the Admin", address: "zoe@example.com" },
+    ]);
+    expect(addresses(parsed.cc)).toEqual([
+      { name: "山田太郎", address: "yamada@example.jp" },
+    ]);
+  });
+
+  it("keeps ASCII display names with specials intact", async () => {
+    const { parsed } = await roundTrip({
+      to: ['Doe, Jane "JD" <jane@example.com>'],
+      subject: "Plain subject",
+      body: "Hi",
+    });
+
+    expect(parsed.subject).toBe("Plain subject");
+    expect(addresses(parsed.to)).toEqual([
+      { name: 'Doe, Jane "JD"', address: "jane@example.com" },
+    ]);
+  });
+
+  it("round-trips quoted-printable bodies", async () => {
+    const body = [
+      "A".repeat(200) + " end",
+      "x=1 and y==2, =3D is not decoded twice",
+      "trailing spaces   ",
+      "trailing tab\t",
+      "naïve café — ünïcödé " + "é".repeat(60),
+      "",
+      ".leading dot and From the start",
+    ].join("\n");
+    const { source, parsed } = await roundTrip({
+      to: ["a@example.com"],
+      subject: "QP",
+      body,
+    });
+
+    expect(source).toContain("Content-Transfer-Encoding: quoted-printable");
+    for (const line of source.split("\r\n"))
+      expect(line.length).toBeLessThanOrEqual(78);
+    expect(parsed.text).toBe(body);
+  });
+
+  it("never leaves whitespace at the end of an encoded line", () => {
+    const encoded = encodeQuotedPrintable(
+      "ends with space \nand tab\t\n" + " ".repeat(100)
+    );
+    for (const line of encoded.split("\r\n"))
+      expect(line).not.toMatch(/[ \t]$/);
+  });
+
+  it("builds multipart HTML messages with inline images and attachments", async () => {
+    const pdf = Buffer.from(
+      "%PDF-1.4\n" + "binary\x00\xff".repeat(50),
+      "latin1"
+    );
+    const png = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+    const { parsed } = await roundTrip({
+      to: ["a@example.com"],
+      subject: "Report",
+      body: "See the report",
+      htmlBody: '<p>See the <b>report</b> <img src="cid:logo@example"></p>',
+      inlineImages: [
+        {
+          data: png.toString("base64"),
+          filename: "logo.png",
+          contentId: "logo@example",
+        },
+      ],
+      attachments: [
+        { data: pdf.toString("base64"), filename: "Bericht März.pdf" },
+        {
+          data: Buffer.from("a,b\n1,2\n").toString("base64"),
+          filename: "data.csv",
+        },
+      ],
+    });
+
+    expect(parsed.text).toBe("See the report");
+    expect(parsed.html).toContain("<b>report</b>");
+    const files = parsed.attachments.map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      contentDisposition: attachment.contentDisposition,
+      cid: attachment.cid,
+      content: attachment.content.toString("base64"),
+    }));
+    expect(files).toEqual([
+      {
+        filename: "logo.png",
+        contentType: "image/png",
+        contentDisposition: "inline",
+        cid: "logo@example",
+        content: png.toString("base64"),
+      },
+      {
+        filename: "Bericht März.pdf",
+        contentType: "application/pdf",
+        contentDisposition: "attachment",
+        cid: undefined,
+        content: pdf.toString("base64"),
+      },
+      {
+        filename: "data.csv",
+        contentType: "text/csv",
+        contentDisposition: "attachment",
+        cid: undefined,
+        content: Buffer.from("a,b\n1,2\n").toString("base64"),
+      },
+    ]);
+  });
+
+  it("requires a content ID on inline images", async () => {
+    await expect(
+      constructRawMessage(gmail, {
+        to: ["a@example.com"],
+        htmlBody: "<p>x</p>",
+        inlineImages: [{ data: "AAAA", filename: "logo.png" }],
+      })
+    ).rejects.toThrow(/needs a contentId/);
+  });
+});
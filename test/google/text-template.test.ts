@@ -0,0 +1,36 @@
+import { renderTemplate } from "../../src/modules/text-template.js";
+
+describe("renderTemplate", () => {
+  it("matches names exactly first and case-insensitively second", () => {
+    expect(
+      renderTemplate("Hi {{First Name}} from {{company}}", {
+        "first name": "Ann",
+        company: "Acme",
+      })
+    ).toEqual({ text: "Hi Ann from Acme", missing: [] });
+  });
+
+  it("uses fallbacks and reports missing values", () => {
+    expect(renderTemplate("{{a|there}} {{b}}", { b: "" })).toEqual({
+      text: "there ",
+      missing: ["b"],
+    });
+  });
+
+  it("never reads values from the prototype chain", () => {
+    expect(
+      renderTemplate("{{constructor}}{{toString}}{{hasOwnProperty}}", {})
+    ).toEqual({
+      text: "",
+      missing: ["constructor", "toString", "hasOwnProperty"],
+    });
+  });
+
+  it("escapes values but not fallbacks", () => {
+    expect(
+      renderTemplate("{{name}} {{x|<b>}}", { name: "<Ann & Bob>" }, (value) =>
+        value.replace(/</g, "&lt;")
+      ).text
+    ).toBe("&lt;Ann & Bob> <b>");
+  });
+});